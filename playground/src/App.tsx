@@ -2,8 +2,6 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { forwardRef, useRef, useState } from 'react'
 import { twMerge } from 'tailwind-merge'
 import { useBigIntInput } from 'use-bigint-input'
-import { useStateWithHistory } from './useStateWithHistory'
-import { useWindowEventListener } from './useEventListener'
 import { Address, erc20Abi, formatUnits, http } from 'viem'
 import { WagmiProvider, createConfig, useReadContract } from 'wagmi'
 import { base } from 'wagmi/chains'
@@ -101,9 +99,9 @@ const AmountInput = forwardRef(function TokenInput(
     onFocus,
     className,
   }: {
-    value: bigint
+    value: bigint | null
     decimals: number
-    onChange: (value: bigint) => void
+    onChange: (value: bigint | null) => void
   } & Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'>,
   forwardedRef,
 ) {
@@ -111,7 +109,7 @@ const AmountInput = forwardRef(function TokenInput(
 
   const [inputWidth, setInputWidth] = useState('4ch')
 
-  const inputProps = useBigIntInput({
+  const { inputProps } = useBigIntInput({
     ref: ref,
     decimals,
     value,
@@ -124,7 +122,10 @@ const AmountInput = forwardRef(function TokenInput(
   return (
     <input
       {...inputProps}
-      onFocus={onFocus}
+      onFocus={(e) => {
+        inputProps.onFocus()
+        onFocus?.(e)
+      }}
       style={{ width: inputWidth }}
       ref={mergeRefs(ref, forwardedRef)}
       className={twMerge(
@@ -142,7 +143,7 @@ const AmountInput = forwardRef(function TokenInput(
 type SwapState = {
   buyToken: Erc20
   sellToken: Erc20
-  amount: bigint
+  amount: bigint | null
   direction: QuoteDirection
 }
 
@@ -150,7 +151,7 @@ const initialState = {
   buyToken: usdc,
   sellToken: weth,
   direction: QuoteDirection.sell,
-  amount: 0n,
+  amount: null,
 } satisfies SwapState
 
 const isSameToken = (a: Erc20, b: Erc20) => a.address === b.address && a.chainId === b.chainId
@@ -162,9 +163,9 @@ function TokenAmountInput({
   token,
   isLoading,
 }: {
-  onChangeAmount: (amount: bigint) => void
+  onChangeAmount: (amount: bigint | null) => void
   onChangeToken: () => void
-  amount: bigint
+  amount: bigint | null
   token: Erc20
   isLoading: boolean
 }) {
@@ -191,10 +192,11 @@ function convertDecimals(amount: bigint, fromDecimals: number, toDecimals: numbe
 }
 
 const Swap = () => {
-  const [{ buyToken, sellToken, amount, direction }, setSwapState, { undo, redo }] =
-    useStateWithHistory<SwapState>(initialState)
+  // each input keeps its own undo/redo history, cmd/ctrl+z in it is handled by the hook
+  const [{ buyToken, sellToken, amount, direction }, setSwapState] =
+    useState<SwapState>(initialState)
 
-  const onChangeAmount = (direction: QuoteDirection) => (amount: bigint) => {
+  const onChangeAmount = (direction: QuoteDirection) => (amount: bigint | null) => {
     setSwapState((currentState) => ({ ...currentState, amount, direction }))
   }
 
@@ -206,39 +208,34 @@ const Swap = () => {
           ...currentState,
           buyToken: sellToken,
           sellToken: buyToken,
-          amount: convertDecimals(amount, sellToken.decimals, buyToken.decimals),
+          amount:
+            amount === null ? null : convertDecimals(amount, sellToken.decimals, buyToken.decimals),
         }
       }
       return { ...currentState, [`${direction}Token`]: token }
     })
   }
 
-  useWindowEventListener('keydown', (e) => {
-    if (e.metaKey && e.code === 'KeyZ') {
-      e.preventDefault()
-      if (e.shiftKey) redo()
-      else undo()
-    }
-  })
-
   const { data, isFetching } = useSwapQuote({
     chainId: sellToken.chainId,
     sellToken: sellToken.address,
     buyToken: buyToken.address,
-    amount,
+    amount: amount ?? 0n,
     direction,
     takerAddress,
   })
 
   const oppositeDirection =
     direction === QuoteDirection.sell ? QuoteDirection.buy : QuoteDirection.sell
+  // an empty amount (null) leaves the other input empty too
   const values = {
     [direction]: amount,
     [oppositeDirection]:
-      amount > 0n
-        ? (direction === QuoteDirection.sell ? data?.grossBuyAmount : data?.grossSellAmount) || 0n
-        : 0n,
-  } as Record<QuoteDirection, bigint>
+      amount !== null && amount > 0n
+        ? ((direction === QuoteDirection.sell ? data?.grossBuyAmount : data?.grossSellAmount) ??
+          null)
+        : null,
+  } as Record<QuoteDirection, bigint | null>
 
   return (
     <div className="flex items-center gap-3 flex-wrap">
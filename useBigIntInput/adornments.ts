@@ -0,0 +1,61 @@
+import type { InputEdit } from './core'
+
+/** text shown around the value, like "$" or " USDC.e", never part of the number even with digits in it */
+export type Adornments = { prefix?: string; suffix?: string }
+
+/** they're only shown around a value, an empty input stays empty for its placeholder */
+export const addAdornments = (value: string, { prefix = '', suffix = '' }: Adornments) =>
+  value ? prefix + value + suffix : ''
+
+/** where the number is in `displayedValue` */
+export function getNumberRange(displayedValue: string, { prefix = '', suffix = '' }: Adornments) {
+  if (!displayedValue) return { start: 0, end: 0 }
+  return { start: prefix.length, end: displayedValue.length - suffix.length }
+}
+
+/** a position in `displayedValue` as a position in its number, a position in the adornments goes to the closest end */
+export function toNumberPosition(
+  position: number | null,
+  displayedValue: string,
+  adornments: Adornments,
+) {
+  if (position === null) return null
+  const { start, end } = getNumberRange(displayedValue, adornments)
+  return Math.min(Math.max(position, start), end) - start
+}
+
+/**
+ * turns an edit of the whole `previousValue` into an edit of just its number
+ * the browser replaced one range of it and left the cursor after what it inserted, the part of
+ * that range over the adornments is ignored, so deleting (or selecting over) them does nothing to them
+ */
+export function removeAdornments(
+  edit: InputEdit,
+  previousValue: string,
+  adornments: Adornments,
+): InputEdit {
+  const { value, selectionEnd } = edit
+  const cursor = selectionEnd ?? value.length
+  const { start, end } = getNumberRange(previousValue, adornments)
+
+  // what's after the cursor was already there, what's before it is either the same or was inserted
+  const replacedEnd = Math.max(previousValue.length - (value.length - cursor), 0)
+  let replacedStart = 0
+  while (
+    replacedStart < Math.min(cursor, replacedEnd) &&
+    value[replacedStart] === previousValue[replacedStart]
+  )
+    replacedStart++
+  const inserted = value.slice(replacedStart, cursor)
+
+  const toNumber = (position: number) => Math.min(Math.max(position, start), end)
+  const numberStart = toNumber(replacedStart)
+  const numberEnd = Math.max(toNumber(replacedEnd), numberStart)
+  const numberCursor = numberStart - start + inserted.length
+  return {
+    ...edit,
+    value: previousValue.slice(start, numberStart) + inserted + previousValue.slice(numberEnd, end),
+    selectionStart: numberCursor,
+    selectionEnd: numberCursor,
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  applyEdit,
+  applyPaste,
+  applyStep,
+  formatMaskedValue,
+  getFormattingOptions,
+  getValueError,
+  limitValue,
+  parseValue,
+  type BigIntInputConfig,
+  type EditResult,
+  type FormattingOptions,
+} from './core'
+
+export type AttachBigIntInput = Omit<BigIntInputConfig, 'formattingOptions'> & {
+  /** `null` is an empty input */
+  value?: bigint | null
+  /** `value` is null when the input is empty */
+  onChange?: (value: bigint | null, maskedValue: string) => void
+  /** locale used to pick the separators, defaults to the runtime locale */
+  locale?: Intl.LocalesArgument
+  /** explicit separators, takes precedence over `locale` */
+  formattingOptions?: FormattingOptions
+}
+
+/**
+ * the same masking `useBigIntInput` does, for a plain `<input>` without react
+ * returns a way to read/write the value from outside and to remove the listeners
+ */
+export function attachBigIntInput(
+  input: HTMLInputElement,
+  { value, onChange, locale, formattingOptions, ...options }: AttachBigIntInput,
+) {
+  const config: BigIntInputConfig = {
+    ...options,
+    formattingOptions: formattingOptions ?? getFormattingOptions(locale),
+  }
+  const { decimals, formattingOptions: resolvedOptions } = config
+
+  // values that weren't typed can go over the limits too, those are brought within them
+  const formatValue = (value: bigint | null) =>
+    value === null ? '' : formatMaskedValue(limitValue(value, config), decimals, resolvedOptions)
+
+  const initialValue = formatValue(value ?? null)
+  let state = { maskedValue: initialValue, cursor: initialValue.length }
+
+  const render = ({
+    maskedValue,
+    cursor,
+    pasteError,
+  }: Pick<EditResult, 'maskedValue' | 'cursor' | 'pasteError'>) => {
+    state = { maskedValue, cursor }
+    input.value = maskedValue
+    // setting the selection of a blurred input focuses it in some browsers
+    if (input.ownerDocument.activeElement === input) input.setSelectionRange(cursor, cursor)
+    input.setAttribute(
+      'aria-invalid',
+      String((pasteError ?? getValueError(maskedValue, config)) !== undefined),
+    )
+  }
+
+  const commitResult = (result: EditResult) => {
+    render(result)
+    if (!result.rejected)
+      onChange?.(parseValue(result.maskedValue, decimals, resolvedOptions), result.maskedValue)
+  }
+
+  const onInput = (e: Event) => {
+    const { value, selectionStart, selectionEnd } = input
+    const inputType = e instanceof InputEvent ? e.inputType : undefined
+    commitResult(applyEdit(state, { value, selectionStart, selectionEnd, inputType }, config))
+  }
+
+  const onPaste = (e: ClipboardEvent) => {
+    e.preventDefault() // we insert the cleaned up value ourselves
+    const { selectionStart, selectionEnd } = input
+    const text = e.clipboardData?.getData('text') ?? ''
+    commitResult(applyPaste(state, { text, selectionStart, selectionEnd }, config))
+  }
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    const { key, shiftKey } = e
+    const result = applyStep(state, { key, shiftKey, selectionStart: input.selectionStart }, config)
+    if (!result) return
+    e.preventDefault() // don't move the cursor or scroll the page
+    if (!result.rejected) commitResult(result)
+  }
+
+  input.inputMode = 'decimal'
+  if (!input.placeholder) input.placeholder = `0${resolvedOptions.decimalSeparator}00`
+  render(state)
+
+  input.addEventListener('input', onInput)
+  input.addEventListener('paste', onPaste)
+  input.addEventListener('keydown', onKeyDown)
+
+  return {
+    getValue: () => parseValue(state.maskedValue, decimals, resolvedOptions),
+    /** doesn't call `onChange`, like a `value` prop change in the hook */
+    setValue: (value: bigint | null) => {
+      const maskedValue = formatValue(value)
+      render({ maskedValue, cursor: maskedValue.length })
+    },
+    detach: () => {
+      input.removeEventListener('input', onInput)
+      input.removeEventListener('paste', onPaste)
+      input.removeEventListener('keydown', onKeyDown)
+    },
+  }
+}
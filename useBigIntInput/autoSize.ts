@@ -0,0 +1,43 @@
+/** a number is in px */
+export type AutoSizeLength = number | `${number}px` | `${number}ch`
+
+/** limits of the text width, like the playground's 4ch to 19ch */
+export type AutoSize = { min?: AutoSizeLength; max?: AutoSizeLength }
+
+// room for the caret after the last character
+const caretWidth = 2
+
+// one canvas for every input, measuring text on it doesn't touch the layout
+let context: CanvasRenderingContext2D | null | undefined
+
+/**
+ * the width `input` needs to show `text` with its computed font, in px, `undefined` where there's no canvas
+ * like `ch`, the limits are for the text, the padding and border are added on top for `border-box` inputs
+ */
+export function measureInputWidth(input: HTMLInputElement, text: string, { min, max }: AutoSize) {
+  context ??= input.ownerDocument.createElement('canvas').getContext('2d')
+  if (!context) return undefined
+
+  const style = input.ownerDocument.defaultView?.getComputedStyle(input)
+  if (!style) return undefined
+  // the `font` shorthand is empty in some browsers, so it's built from its parts
+  context.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`
+
+  const letterSpacing = parseFloat(style.letterSpacing) || 0 // "normal" is 0
+  const textWidth = context.measureText(text).width + letterSpacing * text.length
+  const chWidth = context.measureText('0').width
+  const toPx = (length: AutoSizeLength) =>
+    typeof length === 'number' ? length : parseFloat(length) * (length.endsWith('ch') ? chWidth : 1)
+
+  let width = textWidth + caretWidth
+  if (max !== undefined) width = Math.min(width, toPx(max))
+  if (min !== undefined) width = Math.max(width, toPx(min))
+
+  if (style.boxSizing === 'border-box')
+    width +=
+      parseFloat(style.paddingLeft) +
+      parseFloat(style.paddingRight) +
+      parseFloat(style.borderLeftWidth) +
+      parseFloat(style.borderRightWidth)
+  return Math.ceil(width)
+}
@@ -0,0 +1,795 @@
+import { formatUnits, parseUnits as viemParseUnits } from 'viem/utils'
+import { rescale } from './math'
+
+export type FormattingOptions = {
+  decimalSeparator: string
+  /** empty when the locale (or `useGrouping: false`) doesn't group digits */
+  groupSeparator: string
+  /**
+   * sizes of the digit groups from right to left, the last one repeats
+   * eg. [3] for "1,234,567" and [3, 2] for the indian "12,34,567", empty means no grouping
+   */
+  groupSizes: number[]
+}
+
+// a number big enough to show the secondary grouping size (indian lakh/crore)
+const sampleNumber = 1234567.1
+
+// locales differ in the decimal separator, the group separator ("," "." "'" narrow no-break space...)
+// and in how digits are grouped, so we let Intl tell us all of it
+export function getFormattingOptions(
+  locale?: Intl.LocalesArgument,
+  { useGrouping }: Pick<Intl.NumberFormatOptions, 'useGrouping'> = {},
+): FormattingOptions {
+  const parts = new Intl.NumberFormat(locale, { useGrouping }).formatToParts(sampleNumber)
+  const decimalSeparator = parts.find((p) => p.type === 'decimal')?.value ?? '.'
+  const groupSeparator = parts.find((p) => p.type === 'group')?.value ?? ''
+  if (!groupSeparator) return { decimalSeparator, groupSeparator, groupSizes: [] }
+
+  // integer parts come from left to right, eg. ["12", "34", "567"]
+  const [primary, secondary] = parts
+    .filter((p) => p.type === 'integer')
+    .map((p) => p.value.length)
+    .slice(1)
+    .reverse()
+  const groupSizes = secondary && secondary !== primary ? [primary, secondary] : [primary]
+  return { decimalSeparator, groupSeparator, groupSizes }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+function groupDigits(whole: string, { groupSeparator, groupSizes }: FormattingOptions) {
+  if (!groupSeparator || groupSizes.length === 0) return whole
+
+  const groups: string[] = []
+  let end = whole.length
+  for (let i = 0; end > 0; i++) {
+    const size = groupSizes[Math.min(i, groupSizes.length - 1)]
+    groups.unshift(whole.slice(Math.max(end - size, 0), end))
+    end -= size
+  }
+  return groups.join(groupSeparator)
+}
+
+const splitSign = (value: string) =>
+  value.startsWith('-') ? (['-', value.slice(1)] as const) : (['', value] as const)
+
+const unicodeDigitRegex = /\p{Nd}/u
+
+// unicode decimal digits always come in runs of ten from 0 to 9 (some runs are next to each other, like
+// the mathematical digits), so the value of a digit is its distance from the start of the run
+function digitValue(digit: string) {
+  const codePoint = digit.codePointAt(0) as number
+  let start = codePoint
+  while (unicodeDigitRegex.test(String.fromCodePoint(start - 1))) start--
+  return (codePoint - start) % 10
+}
+
+// the arabic decimal separator and the full-width full stop (japanese and chinese keyboards)
+const decimalSeparatorAliases = /[٫．]/g
+// the arabic thousands separator and the full-width comma
+const groupSeparatorAliases = /[٬，]/g
+
+/**
+ * replaces the digits of any script (arabic-indic "١٢٣", devanagari "१२३", full-width "１２３"...)
+ * with ascii digits, and the decimal separators of other scripts with `decimalSeparator`
+ */
+export function normalizeDigits(
+  value: string,
+  { decimalSeparator }: Pick<FormattingOptions, 'decimalSeparator'>,
+) {
+  return value
+    .replace(/(?![0-9])\p{Nd}/gu, (digit) => String(digitValue(digit)))
+    .replace(decimalSeparatorAliases, decimalSeparator)
+}
+
+/** the ten digits `locale` writes numbers with, like "٠١٢٣٤٥٦٧٨٩" for "ar-EG" */
+export function getLocaleDigits(locale?: Intl.LocalesArgument) {
+  const format = new Intl.NumberFormat(locale, { useGrouping: false })
+  const digits = Array.from({ length: 10 }, (_, digit) => format.format(digit))
+  // the cursor math counts utf-16 units, so digits outside the BMP would shift it
+  return digits.every((digit) => digit.length === 1) ? digits.join('') : '0123456789'
+}
+
+/** the opposite of `normalizeDigits`, for display only, `value` keeps its length */
+export const toLocaleDigits = (value: string, digits: string) =>
+  value.replace(/[0-9]/g, (digit) => digits[Number(digit)])
+
+export function mask(value: string, options: FormattingOptions) {
+  const [sign, unsignedValue] = splitSign(value)
+  const [whole, fraction] = unsignedValue.split(options.decimalSeparator)
+  const formattedWhole = sign + groupDigits(whole, options)
+  if (fraction !== undefined) return [formattedWhole, fraction].join(options.decimalSeparator)
+  return formattedWhole
+}
+
+export const unmask = (value: string, { groupSeparator }: FormattingOptions) => {
+  if (!groupSeparator) return value
+  return value.replaceAll(groupSeparator, '')
+}
+
+// viem only understands "." as decimal separator, so we drop the group separators first
+// otherwise "1.000,5" would become "1.000.5"
+export const parseMaskedValue = (value: string, decimals: number, options: FormattingOptions) => {
+  // the sign is handled here so a lone "-" (the user is about to type a negative number) parses as 0
+  const [sign, unsignedValue] = splitSign(value)
+  const parsed = viemParseUnits(
+    unmask(unsignedValue, options).replace(options.decimalSeparator, '.'),
+    decimals,
+  )
+  return sign ? -parsed : parsed
+}
+
+export function toNumericString(
+  value: string,
+  decimals: number,
+  { decimalSeparator }: FormattingOptions,
+  allowNegative = false,
+) {
+  // removes non-numeric characters but keep the first `decimalSeparator`
+  // and a leading "-" if negatives are allowed
+
+  if (value === decimalSeparator) return ''
+
+  // the value was non negative and the user typed a "-" anywhere, or it was negative (leading "-")
+  // and the user typed another one or deleted it, so an odd number of "-" means it's negative
+  const sign = allowNegative && (value.split('-').length - 1) % 2 === 1 ? '-' : ''
+
+  // match any character that is not a digit or the decimal separator
+  // then split the string by the decimal separator (maybe the user try to input more than one decimal separator eg. "1.2.3")
+  const [whole, ...fraction] = normalizeDigits(value, { decimalSeparator })
+    .replace(new RegExp(`[^\\d${escapeRegExp(decimalSeparator)}]`, 'g'), '')
+    .split(decimalSeparator)
+  if (fraction.length === 0) return sign + whole
+
+  // keeps the first decimals separator and remove the rest
+  const fractionString = fraction.join('').substring(0, decimals) // limit the decimals
+  return sign + [whole, fractionString].join(decimalSeparator)
+}
+
+// moves the decimal separator `exponent` digits to the right (or left if negative)
+// it's all string manipulation so it's exact, no float rounding like `Number("1.1e18")`
+function shiftDecimalSeparator(value: string, exponent: number, decimalSeparator: string) {
+  const [sign, unsignedValue] = splitSign(value)
+  const [whole, fraction = ''] = unsignedValue.split(decimalSeparator)
+
+  let digits = whole + fraction
+  let separatorIndex = whole.length + exponent
+  if (separatorIndex < 0) {
+    digits = '0'.repeat(-separatorIndex) + digits
+    separatorIndex = 0
+  }
+  digits = digits.padEnd(separatorIndex, '0')
+
+  const newWhole = digits.slice(0, separatorIndex).replace(/^0+(?=\d)/, '') || '0'
+  const newFraction = digits.slice(separatorIndex).replace(/0+$/, '')
+  return sign + (newFraction ? [newWhole, newFraction].join(decimalSeparator) : newWhole)
+}
+
+const magnitudeSuffixes: Record<string, number> = { k: 3, m: 6, b: 9, t: 12 }
+
+// there's no token with more than a few dozen decimals, this is here so "1e999999" doesn't freeze the page
+const maxExponent = 100
+
+// expands "1.5k" -> "1500" and "1e18" -> "1000000000000000000"
+// returns undefined when the value isn't in shorthand notation
+function expandShorthand(
+  value: string,
+  options: FormattingOptions,
+  { allowNegative, withExponent }: { allowNegative: boolean; withExponent: boolean },
+) {
+  const shorthandRegex = withExponent
+    ? /^(.*?)(?:([kmbt])|e([+-]?\d+))\s*$/i
+    : /^(.*?)([kmbt])\s*$/i
+  const match = value.match(shorthandRegex)
+  if (!match) return
+
+  const [, mantissa, suffix, exponent] = match
+  const numericMantissa = toNumericString(mantissa, Infinity, options, allowNegative)
+  if (!/\d/.test(numericMantissa)) return
+
+  const shift = suffix ? magnitudeSuffixes[suffix.toLowerCase()] : Number(exponent)
+  if (Math.abs(shift) > maxExponent) return
+
+  return shiftDecimalSeparator(numericMantissa, shift, options.decimalSeparator)
+}
+
+/**
+ * how the value is shown when the input isn't focused, while editing it's always what the user typed
+ * it's always normalised, without leading zeros ("000.5" -> "0.5") or a trailing decimal separator ("1." -> "1")
+ */
+export type DisplayFormat = {
+  /** pads the fraction with zeros, "1.5" -> "1.50" with 2 */
+  minFractionDigits?: number
+  /** `compact` abbreviates from a thousand up, "1,234,567" -> "1.2M" */
+  notation?: 'standard' | 'compact'
+  /** fraction digits kept in the `compact` notation, the rest is truncated, defaults to 1 */
+  compactFractionDigits?: number
+}
+
+const compactSuffixes = ['', 'K', 'M', 'B', 'T']
+
+// "1234567.8" -> "1.2M", exact like the shorthand expansion, but truncating so a balance is never overstated
+function compactNumber(value: string, fractionDigits: number, options: FormattingOptions) {
+  const [sign, unsignedValue] = splitSign(value)
+  const whole = unsignedValue.split(options.decimalSeparator)[0]
+  const magnitude = Math.min(Math.floor((whole.length - 1) / 3), compactSuffixes.length - 1)
+  if (magnitude === 0) return
+
+  const shifted = shiftDecimalSeparator(unsignedValue, -3 * magnitude, options.decimalSeparator)
+  const [shiftedWhole, shiftedFraction = ''] = shifted.split(options.decimalSeparator)
+  const fraction = shiftedFraction.slice(0, fractionDigits).replace(/0+$/, '')
+  const number = fraction ? [shiftedWhole, fraction].join(options.decimalSeparator) : shiftedWhole
+  return mask(sign + number, options) + compactSuffixes[magnitude]
+}
+
+export function formatDisplayValue(
+  maskedValue: string,
+  decimals: number,
+  options: FormattingOptions,
+  { minFractionDigits = 0, notation = 'standard', compactFractionDigits = 1 }: DisplayFormat = {},
+) {
+  if (isEmptyValue(maskedValue)) return ''
+
+  // formatUnits already drops leading zeros, trailing fraction zeros and a trailing decimal separator
+  const bigint = parseMaskedValue(maskedValue, decimals, options)
+  const normalised = formatUnits(bigint, decimals).replace('.', options.decimalSeparator)
+
+  if (notation === 'compact') {
+    const compact = compactNumber(normalised, compactFractionDigits, options)
+    if (compact) return compact
+  }
+
+  const padding = Math.min(minFractionDigits, decimals)
+  if (padding === 0) return mask(normalised, options)
+  const [whole, fraction = ''] = normalised.split(options.decimalSeparator)
+  return mask([whole, fraction.padEnd(padding, '0')].join(options.decimalSeparator), options)
+}
+
+export type PasteError = 'ambiguousPaste' | 'invalidPaste'
+
+// the number itself, from the first to the last digit, with anything that can be used to group digits in between
+// whatever comes before and after it is a currency symbol, a unit, whitespace... eg. "$1 234,56" or "1,234.56 USDC"
+const pastedNumberRegex = /[.,]?\d(?:[\d.,'’_\s]*\d)?/
+
+// a whole part split on its group separators, from left to right, is grouped like "1,234,567" or
+// like the locale's own grouping (the indian "12,34,567"), but "1.5.6" or "1234,567" isn't
+function isGrouped(groups: string[], groupSizes: number[]) {
+  const fromRight = groups.slice(1).reverse()
+  const matches = (sizes: number[]) => {
+    const sizeAt = (i: number) => sizes[Math.min(i, sizes.length - 1)]
+    const first = groups[0].length
+    return (
+      fromRight.every((group, i) => group.length === sizeAt(i)) &&
+      first > 0 &&
+      first <= sizeAt(fromRight.length)
+    )
+  }
+  return matches([3]) || (groupSizes.length > 0 && matches(groupSizes))
+}
+
+// figures out which separator convention the pasted number uses (it's probably not the user locale)
+// and rewrites it with the `options` decimal separator and no group separators
+// "1,234.56" -> "1234,56" (in a comma-decimal locale)
+function parsePastedValue(
+  text: string,
+  { decimalSeparator, groupSeparator, groupSizes }: FormattingOptions,
+):
+  | { value: string; shorthand: string; error?: undefined }
+  | { value?: undefined; shorthand?: undefined; error: PasteError } {
+  // the separators of other scripts are read like their ascii look-alikes, so "١٬٢٣٤٫٥" is "1,234.5"
+  const normalizedText = normalizeDigits(text, { decimalSeparator: '.' }).replace(
+    groupSeparatorAliases,
+    ',',
+  )
+  const match = normalizedText.match(pastedNumberRegex)
+  if (!match || match.index === undefined) return { error: 'invalidPaste' }
+
+  const prefix = normalizedText.slice(0, match.index)
+  const suffix = normalizedText.slice(match.index + match[0].length)
+  // only a minus right before the number (or its currency symbol) is a sign, not a hyphen like "ETH-USD"
+  const sign = /[-−]\s*[^\w\s]?\s*$/.test(prefix) ? '-' : ''
+  // keep a shorthand suffix ("1.5k", "1e18") right after the number, expanding it is up to the caller
+  const shorthand = suffix.match(/^\s*([kmbt](?![a-z])|e[+-]?\d+)/i)?.[1] ?? ''
+
+  // spaces, apostrophes and underscores are only ever used to group digits
+  const number = match[0].replace(/['’_\s]/g, '')
+
+  const dots = number.split('.').length - 1
+  const commas = number.split(',').length - 1
+
+  let pastedDecimalSeparator: '.' | ',' | undefined
+  if (dots && commas) {
+    // both are used, so the last one is the decimal separator, and it can only be there once
+    // "1,234,567.89" or "1.234.567,89"
+    pastedDecimalSeparator = number.lastIndexOf('.') > number.lastIndexOf(',') ? '.' : ','
+    if ((pastedDecimalSeparator === '.' ? dots : commas) > 1) return { error: 'invalidPaste' }
+  } else if (dots + commas === 1) {
+    const separator = dots ? '.' : ','
+    const [whole, fraction] = number.split(separator)
+    // "1.5", "0,25" or "1.234567" can't be grouped digits, a group always has 3 digits after it
+    // but "1,234" could be one thousand two hundred thirty four or one point two three four,
+    // we go with the user locale if it uses that separator, and give up if it doesn't
+    const couldBeGroup = fraction.length === 3 && /[1-9]/.test(whole)
+    if (!couldBeGroup || separator === decimalSeparator) pastedDecimalSeparator = separator
+    else if (separator !== groupSeparator) return { error: 'ambiguousPaste' }
+  }
+  // else it's either an integer or the same separator repeats, so it's grouping "1.234.567"
+
+  // the other separator only groups digits, so it has to be where the groups are
+  const groups = (pastedDecimalSeparator ? number.split(pastedDecimalSeparator)[0] : number).split(
+    /[.,]/,
+  )
+  if (groups.length > 1 && !isGrouped(groups, groupSizes)) return { error: 'invalidPaste' }
+
+  const [whole, fraction] = pastedDecimalSeparator
+    ? number.split(pastedDecimalSeparator)
+    : [number, undefined]
+  const digits = (value: string) => value.replace(/\D/g, '')
+  const value =
+    fraction === undefined
+      ? digits(whole)
+      : [digits(whole), digits(fraction)].join(decimalSeparator)
+
+  return { value: sign + value, shorthand }
+}
+
+// the digit-index model: separators and the sign come and go as the value is masked,
+// but the digits stay in the same order, so the cursor is mapped by how many digits are before it
+const countDigits = (value: string) => value.replace(/\D/g, '').length
+
+function cursorAfterDigits(maskedValue: string, digits: number) {
+  if (digits === 0) return 0
+  let seen = 0
+  for (let i = 0; i < maskedValue.length; i++) {
+    if (/\d/.test(maskedValue[i]) && ++seen === digits) return i + 1
+  }
+  return maskedValue.length
+}
+
+// maps a cursor in `rawValue` (what the browser has after the edit) to the same place in `maskedValue`
+// like 1,23|4 -> 1,235|4 -> 12,35|4 (3 digits before it in both)
+function mapCursor(
+  rawValue: string,
+  rawCursor: number,
+  maskedValue: string,
+  decimalSeparator: string,
+) {
+  const rawBeforeCursor = rawValue.slice(0, rawCursor)
+  let cursor = cursorAfterDigits(maskedValue, countDigits(rawBeforeCursor))
+
+  // the sign is in front of any digit, keep the cursor after it if it was
+  // like 5|,000 -> -5|,000 but |5,000 -> -|5,000
+  if (cursor === 0 && maskedValue.startsWith('-') && rawBeforeCursor.includes('-')) cursor = 1
+
+  // the user just typed the decimal separator (or the cursor was after it), keep it after it
+  // like 12|3 -> 12.|3
+  if (
+    (rawBeforeCursor.endsWith(decimalSeparator) || /[.,]$/.test(rawBeforeCursor)) &&
+    maskedValue[cursor] === decimalSeparator
+  )
+    cursor++
+
+  return cursor
+}
+
+// the delete inputTypes that remove characters next to the cursor, in the direction of the name
+const deleteInputTypeRegex = /^delete(?:Content|Word|SoftLine|HardLine)(Backward|Forward)$/
+
+function handleMaskedInput(
+  state: BigIntInputState,
+  { value, selectionStart, inputType }: InputEdit,
+  {
+    decimals,
+    formattingOptions: options,
+    allowNegative = false,
+    allowShorthand = false,
+  }: BigIntInputConfig,
+) {
+  let rawInputValue = value
+  let rawCursor = selectionStart ?? value.length // should only be null when the input is blurred, fallback to end just in case and to make ts happy
+
+  if (allowShorthand) {
+    // a magnitude suffix ends the number so it's expanded as soon as it's typed, but "1e1" could still be
+    // on its way to "1e18", so exponents are only expanded when they come all at once (paste, drop, autofill)
+    const withExponent = inputType !== 'insertText'
+    const expandedValue = expandShorthand(rawInputValue, options, { allowNegative, withExponent })
+    if (expandedValue !== undefined) {
+      const numericValue = toNumericString(expandedValue, decimals, options, allowNegative)
+      const maskedValue = mask(numericValue, options)
+      return { numericValue, maskedValue, cursor: maskedValue.length }
+    }
+  }
+
+  // a trailing "." or "," was just typed, and the user meant a decimal separator
+  // (eg. the numpad key is always "." even when the locale uses ",")
+  // deleting a word can also leave a trailing group separator, that one is just removed
+  if ((inputType === undefined || inputType === 'insertText') && /[.,]$/.test(rawInputValue))
+    rawInputValue = rawInputValue.slice(0, -1) + options.decimalSeparator
+
+  let numericValue = toNumericString(rawInputValue, decimals, options, allowNegative)
+
+  // deleting only a group separator doesn't change the number, and the mask would just put it back
+  // so we delete the digit next to it, in the direction the user is deleting
+  // like 1,000,|000 -> backspace -> 100,|000 and 1|,000 -> delete -> 1|00
+  const deleteDirection = inputType?.match(deleteInputTypeRegex)?.[1]
+  if (deleteDirection && numericValue === unmask(state.maskedValue, options)) {
+    let digitIndex = deleteDirection === 'Forward' ? rawCursor : rawCursor - 1
+    const direction = deleteDirection === 'Forward' ? 1 : -1
+    while (
+      digitIndex >= 0 &&
+      digitIndex < rawInputValue.length &&
+      !/\d/.test(rawInputValue[digitIndex])
+    )
+      digitIndex += direction
+
+    if (digitIndex >= 0 && digitIndex < rawInputValue.length) {
+      rawInputValue = rawInputValue.slice(0, digitIndex) + rawInputValue.slice(digitIndex + 1)
+      rawCursor = Math.min(rawCursor, digitIndex)
+      numericValue = toNumericString(rawInputValue, decimals, options, allowNegative)
+    }
+  }
+
+  const maskedValue = mask(numericValue, options)
+  return {
+    numericValue,
+    maskedValue,
+    cursor: mapCursor(rawInputValue, rawCursor, maskedValue, options.decimalSeparator),
+  }
+}
+
+export type BoundsError = 'overMax' | 'underMin'
+/** named after the option the edit went over */
+export type LimitError = 'maxIntegerDigits' | 'maxFractionDigits' | 'maxValueBits'
+export type InputError = BoundsError | PasteError | LimitError
+
+/**
+ * what to do when a keystroke takes the value out of `min`/`max`
+ * - `clamp`: replace the value with the bound it went over
+ * - `reject`: ignore the keystroke, keeping the previous value and cursor
+ * - `allow`: accept the value and report the `error`
+ */
+export type BoundsBehavior = 'clamp' | 'reject' | 'allow'
+
+type Bounds = { min?: bigint; max?: bigint }
+
+const getBoundsError = (value: bigint, { min, max }: Bounds): BoundsError | undefined => {
+  if (max !== undefined && value > max) return 'overMax'
+  if (min !== undefined && value < min) return 'underMin'
+}
+
+// typing more digits only moves the value AWAY from zero, so a bound between zero and the value
+// can't be reached by typing (eg. with min 5 the user has to go through "1" to type "10")
+// those are only reported, never clamped or rejected
+const canEnforceBound = (error: BoundsError, { min = 0n, max = 0n }: Bounds) =>
+  error === 'overMax' ? max >= 0n : min <= 0n
+
+const clamp = (value: bigint, { min, max }: Bounds) => {
+  if (max !== undefined && value > max) return max
+  if (min !== undefined && value < min) return min
+  return value
+}
+
+type Limits = Pick<
+  BigIntInputConfig,
+  'decimals' | 'maxIntegerDigits' | 'maxFractionDigits' | 'maxValueBits'
+>
+
+const getLimitError = (
+  numericValue: string,
+  bigint: bigint,
+  { maxIntegerDigits, maxFractionDigits, maxValueBits }: Limits,
+  { decimalSeparator }: FormattingOptions,
+): LimitError | undefined => {
+  const [whole, fraction = ''] = splitSign(numericValue)[1].split(decimalSeparator)
+  // leading zeros don't count, "0.5" has no integer digits
+  if (maxIntegerDigits !== undefined && whole.replace(/^0+/, '').length > maxIntegerDigits)
+    return 'maxIntegerDigits'
+  if (maxFractionDigits !== undefined && fraction.length > maxFractionDigits)
+    return 'maxFractionDigits'
+  if (maxValueBits !== undefined && (bigint < 0n ? -bigint : bigint) >= 1n << BigInt(maxValueBits))
+    return 'maxValueBits'
+}
+
+/**
+ * the closest value to `value` within `maxIntegerDigits`, `maxFractionDigits` and `maxValueBits`
+ * typing is rejected instead, this is for values that come from somewhere else (like the props)
+ */
+export function limitValue(
+  value: bigint,
+  { decimals, maxIntegerDigits, maxFractionDigits = decimals, maxValueBits }: Limits,
+) {
+  // the digits past `maxFractionDigits` are dropped, so the largest value ends in zeros too
+  const fractionUnit = 10n ** BigInt(decimals - Math.min(maxFractionDigits, decimals))
+  const toFractionUnit = (value: bigint) => (value / fractionUnit) * fractionUnit // truncates toward zero
+
+  const largestValues: bigint[] = []
+  if (maxIntegerDigits !== undefined)
+    largestValues.push(10n ** BigInt(maxIntegerDigits + decimals) - 1n)
+  if (maxValueBits !== undefined) largestValues.push((1n << BigInt(maxValueBits)) - 1n)
+
+  let limited = toFractionUnit(value)
+  for (const largest of largestValues) {
+    const bound = toFractionUnit(largest)
+    if (limited > bound) limited = bound
+    if (limited < -bound) limited = -bound
+  }
+  return limited
+}
+
+const stepKeys: Record<string, { direction: 1n | -1n; large: boolean }> = {
+  ArrowUp: { direction: 1n, large: false },
+  ArrowDown: { direction: -1n, large: false },
+  PageUp: { direction: 1n, large: true },
+  PageDown: { direction: -1n, large: true },
+}
+
+export type BigIntInputConfig = {
+  decimals: number
+  formattingOptions: FormattingOptions
+  min?: bigint
+  max?: bigint
+  /** defaults to `allow` */
+  boundsBehavior?: BoundsBehavior
+  /** accepts a leading "-", typing "-" anywhere toggles the sign */
+  allowNegative?: boolean
+  /**
+   * expands magnitude suffixes ("1.5k", "2m", "3b", "1t") as they are typed
+   * and scientific notation ("1e18", "5e-3") when pasted
+   */
+  allowShorthand?: boolean
+  /** amount added/subtracted with ArrowUp/ArrowDown, defaults to one whole unit (10 ** decimals) */
+  step?: bigint
+  /** amount added/subtracted with PageUp/PageDown or holding Shift, defaults to `step * 10n` */
+  largeStep?: bigint
+  /** the most digits before the decimal separator, typing more is rejected */
+  maxIntegerDigits?: number
+  /** the most digits after the decimal separator, up to `decimals`, like 6 to not show all 18 of ETH */
+  maxFractionDigits?: number
+  /** the value (without its sign) has to fit in these many bits, like 96 for a uint96 */
+  maxValueBits?: number
+}
+
+/** what's in the input before the edit */
+export type BigIntInputState = { maskedValue: string; cursor: number }
+
+/** what's in the input after the browser applied the edit, like in an `input` event */
+export type InputEdit = {
+  value: string
+  selectionStart: number | null
+  selectionEnd: number | null
+  inputType?: string
+}
+
+export type PasteEdit = { text: string; selectionStart: number | null; selectionEnd: number | null }
+
+export type StepEdit = { key: string; shiftKey: boolean; selectionStart: number | null }
+
+export type EditResult = BigIntInputState & {
+  numericValue: string
+  bigint: bigint
+  /** the edit was ignored (out of bounds or an invalid paste), this is the previous state */
+  rejected: boolean
+  pasteError?: PasteError
+  /** the typed value was out of bounds, so it was clamped or rejected */
+  boundsError?: BoundsError
+  /** the typed value went over one of the limits, so it was rejected */
+  limitError?: LimitError
+}
+
+// formatUnits always uses a "." for the decimals
+export const formatMaskedValue = (value: bigint, decimals: number, options: FormattingOptions) =>
+  mask(formatUnits(value, decimals).replace('.', options.decimalSeparator), options)
+
+/** nothing typed yet, or just a "-" or a decimal separator */
+export const isEmptyValue = (maskedValue: string) => !/\d/.test(maskedValue)
+
+/** like `parseMaskedValue` but an empty input is `null` instead of 0n, so "" and "0" can be told apart */
+export const parseValue = (maskedValue: string, decimals: number, options: FormattingOptions) =>
+  isEmptyValue(maskedValue) ? null : parseMaskedValue(maskedValue, decimals, options)
+
+/**
+ * what happens to the value when `decimals` changes (eg. the user picked another token)
+ * - `preserveDisplay`: "1.5" stays "1.5", fraction digits the new decimals can't hold are rounded (half up)
+ * - `truncate`: same as `preserveDisplay`, but the extra fraction digits are just dropped
+ * - `preserveBigint`: the bigint stays the same, "1.5" with 6 decimals becomes "0.0000000000015" with 18
+ */
+export type DecimalsChangeBehavior = 'preserveDisplay' | 'preserveBigint' | 'truncate'
+
+export function migrateDecimals(
+  maskedValue: string,
+  { from, to }: { from: number; to: number },
+  behavior: DecimalsChangeBehavior,
+  options: FormattingOptions,
+): { maskedValue: string; bigint: bigint } {
+  const bigint = parseMaskedValue(maskedValue, from, options)
+  if (!maskedValue) return { maskedValue, bigint }
+
+  if (behavior === 'preserveBigint')
+    return { maskedValue: formatMaskedValue(bigint, to, options), bigint }
+
+  // it's all bigint math, scaling up is exact and scaling down loses only the digits that don't fit
+  const scaled = rescale(bigint, { from, to }, behavior === 'truncate' ? 'trunc' : 'halfUp')
+  if (to >= from) return { maskedValue, bigint: scaled }
+
+  // keep what the user typed (like "1." or "1.50") when it still fits
+  const fractionDigits = unmask(maskedValue, options).split(options.decimalSeparator)[1] ?? ''
+  if (fractionDigits.length <= to) return { maskedValue, bigint: scaled }
+  return { maskedValue: formatMaskedValue(scaled, to, options), bigint: scaled }
+}
+
+/** bounds errors aren't always rejected (see `boundsBehavior`), this tells if the value has one */
+export function getValueError(
+  maskedValue: string,
+  { decimals, formattingOptions, min, max }: BigIntInputConfig,
+) {
+  // an empty input has no value to be out of bounds
+  if (!maskedValue) return undefined
+  return getBoundsError(parseMaskedValue(maskedValue, decimals, formattingOptions), { min, max })
+}
+
+const rejectEdit = (
+  { maskedValue, cursor }: BigIntInputState,
+  { decimals, formattingOptions }: BigIntInputConfig,
+  reason?: Pick<EditResult, 'pasteError' | 'boundsError' | 'limitError'>,
+): EditResult => ({
+  numericValue: unmask(maskedValue, formattingOptions),
+  maskedValue,
+  cursor,
+  bigint: parseMaskedValue(maskedValue, decimals, formattingOptions),
+  rejected: true,
+  ...reason,
+})
+
+// typing and pasting go through the same bounds checks
+function commitEdit(
+  state: BigIntInputState,
+  {
+    numericValue,
+    maskedValue,
+    cursor,
+  }: { numericValue: string; maskedValue: string; cursor: number },
+  config: BigIntInputConfig,
+): EditResult {
+  const { decimals, formattingOptions, min, max, boundsBehavior = 'allow' } = config
+  const bigint = parseMaskedValue(numericValue, decimals, formattingOptions)
+
+  // going over a limit can only come from typing, deleting always gets back within them
+  const limitError = getLimitError(numericValue, bigint, config, formattingOptions)
+  if (limitError) return rejectEdit(state, config, { limitError })
+
+  // an empty input has no value to be out of bounds
+  const boundsError = numericValue ? getBoundsError(bigint, { min, max }) : undefined
+  if (boundsError && canEnforceBound(boundsError, { min, max })) {
+    if (boundsBehavior === 'reject') return rejectEdit(state, config, { boundsError })
+    if (boundsBehavior === 'clamp') {
+      const clampedValue = (boundsError === 'overMax' ? max : min) as bigint
+      const clampedMaskedValue = formatMaskedValue(clampedValue, decimals, formattingOptions)
+      return {
+        numericValue: unmask(clampedMaskedValue, formattingOptions),
+        maskedValue: clampedMaskedValue,
+        cursor: clampedMaskedValue.length,
+        bigint: clampedValue,
+        rejected: false,
+        boundsError,
+      }
+    }
+  }
+
+  return { numericValue, maskedValue, cursor, bigint, rejected: false }
+}
+
+/** masks whatever the browser left in the input after the user typed/deleted something */
+export function applyEdit(
+  state: BigIntInputState,
+  edit: InputEdit,
+  config: BigIntInputConfig,
+): EditResult {
+  // digits outside the BMP (like the mathematical ones) are two utf-16 units, the cursor moves with them
+  const { value, selectionStart, selectionEnd } = edit
+  const normalize = (value: string) => normalizeDigits(value, config.formattingOptions)
+  const normalizedEdit = {
+    ...edit,
+    value: normalize(value),
+    selectionStart:
+      selectionStart === null ? null : normalize(value.slice(0, selectionStart)).length,
+    selectionEnd: selectionEnd === null ? null : normalize(value.slice(0, selectionEnd)).length,
+  }
+  return commitEdit(state, handleMaskedInput(state, normalizedEdit, config), config)
+}
+
+/** inserts the clipboard `text` in the selection, after making sense of its separators */
+export function applyPaste(
+  state: BigIntInputState,
+  { text, selectionStart, selectionEnd }: PasteEdit,
+  config: BigIntInputConfig,
+): EditResult {
+  const { decimals, formattingOptions, allowNegative = false, allowShorthand = false } = config
+
+  const pasted = parsePastedValue(text, formattingOptions)
+  if (pasted.error) return rejectEdit(state, config, { pasteError: pasted.error })
+
+  const currentValue = state.maskedValue
+  const before = currentValue.slice(0, selectionStart ?? currentValue.length)
+  const after = currentValue.slice(selectionEnd ?? currentValue.length)
+
+  // leaving out what isn't allowed would paste another amount, like 1 for "1e18" or 100 for "-100"
+  if (pasted.value.startsWith('-') && !allowNegative)
+    return rejectEdit(state, config, { pasteError: 'invalidPaste' })
+  let pastedValue = pasted.value
+  if (pasted.shorthand) {
+    const expanded =
+      allowShorthand &&
+      expandShorthand(pasted.value + pasted.shorthand, formattingOptions, {
+        allowNegative,
+        withExponent: true,
+      })
+    if (!expanded) return rejectEdit(state, config, { pasteError: 'invalidPaste' })
+    pastedValue = expanded
+  }
+
+  const numericValue = toNumericString(
+    before + pastedValue + after,
+    decimals,
+    formattingOptions,
+    allowNegative,
+  )
+  const maskedValue = mask(numericValue, formattingOptions)
+  // the cursor goes at the end of the pasted value
+  const cursor = mapCursor(
+    before + pastedValue,
+    (before + pastedValue).length,
+    maskedValue,
+    formattingOptions.decimalSeparator,
+  )
+  return commitEdit(state, { numericValue, maskedValue, cursor }, config)
+}
+
+/**
+ * increments/decrements the value with ArrowUp/ArrowDown and PageUp/PageDown (or Shift)
+ * returns undefined for any other key, so the caller knows not to `preventDefault` it
+ */
+export function applyStep(
+  state: BigIntInputState,
+  { key, shiftKey, selectionStart }: StepEdit,
+  config: BigIntInputConfig,
+): EditResult | undefined {
+  const stepKey = stepKeys[key]
+  if (!stepKey) return
+
+  const { decimals, formattingOptions, min, max, allowNegative = false, step, largeStep } = config
+  const smallStep = step ?? 10n ** BigInt(decimals)
+  const amount = stepKey.large || shiftKey ? (largeStep ?? smallStep * 10n) : smallStep
+
+  const currentMaskedValue = state.maskedValue
+  const currentValue = parseMaskedValue(currentMaskedValue, decimals, formattingOptions)
+  const bigint = clamp(currentValue + stepKey.direction * amount, {
+    min: min ?? (allowNegative ? undefined : 0n),
+    max,
+  })
+  if (bigint === currentValue) return rejectEdit(state, config)
+
+  const maskedValue = formatMaskedValue(bigint, decimals, formattingOptions)
+  const limitError = getLimitError(
+    unmask(maskedValue, formattingOptions),
+    bigint,
+    config,
+    formattingOptions,
+  )
+  if (limitError) return rejectEdit(state, config, { limitError })
+
+  // the cursor stays after the same number of digits, or at the end if it was there
+  // like 9|99 -> 1|,099 and |9 -> |10
+  const cursor =
+    selectionStart === null || selectionStart >= currentMaskedValue.length
+      ? maskedValue.length
+      : cursorAfterDigits(maskedValue, countDigits(currentMaskedValue.slice(0, selectionStart)))
+
+  return {
+    numericValue: unmask(maskedValue, formattingOptions),
+    maskedValue,
+    cursor,
+    bigint,
+    rejected: false,
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  formatDisplayValue,
+  formatMaskedValue,
+  getFormattingOptions,
+  type DisplayFormat,
+  type FormattingOptions,
+} from './core'
+import { divide, rescale, type RoundingMode } from './math'
+
+/** a raw bigint together with its decimals, like `{ value: 1500000n, decimals: 6 }` for 1.5 USDC */
+export type FixedAmount = { value: bigint; decimals: number }
+
+/** where a result that doesn't fit is rounded, defaults to the decimals of the first amount and `trunc` */
+export type FixedAmountResult = { decimals?: number; rounding?: RoundingMode }
+
+export const fixedAmount = (value: bigint, decimals: number): FixedAmount => ({ value, decimals })
+
+export const rescaleAmount = (
+  { value, decimals }: FixedAmount,
+  to: number,
+  rounding?: RoundingMode,
+): FixedAmount => ({ value: rescale(value, { from: decimals, to }, rounding), decimals: to })
+
+// scaling up is exact, so both amounts are moved to the larger decimals
+function align(a: FixedAmount, b: FixedAmount) {
+  const decimals = Math.max(a.decimals, b.decimals)
+  return [rescaleAmount(a, decimals).value, rescaleAmount(b, decimals).value, decimals] as const
+}
+
+/** exact, the result has the larger decimals of the two */
+export function addAmounts(a: FixedAmount, b: FixedAmount): FixedAmount {
+  const [x, y, decimals] = align(a, b)
+  return { value: x + y, decimals }
+}
+
+/** exact, the result has the larger decimals of the two */
+export function subtractAmounts(a: FixedAmount, b: FixedAmount): FixedAmount {
+  const [x, y, decimals] = align(a, b)
+  return { value: x - y, decimals }
+}
+
+export function multiplyAmounts(
+  a: FixedAmount,
+  b: FixedAmount,
+  { decimals = a.decimals, rounding }: FixedAmountResult = {},
+): FixedAmount {
+  // the exact product has the decimals of both
+  return rescaleAmount(
+    { value: a.value * b.value, decimals: a.decimals + b.decimals },
+    decimals,
+    rounding,
+  )
+}
+
+/** throws a `RangeError` when dividing by zero, like bigint division */
+export function divideAmounts(
+  a: FixedAmount,
+  b: FixedAmount,
+  { decimals = a.decimals, rounding }: FixedAmountResult = {},
+): FixedAmount {
+  // a / b = (a.value / 10^a.decimals) / (b.value / 10^b.decimals), scaled to 10^decimals before dividing
+  const exponent = decimals + b.decimals - a.decimals
+  const numerator = exponent > 0 ? a.value * 10n ** BigInt(exponent) : a.value
+  const denominator = exponent < 0 ? b.value * 10n ** BigInt(-exponent) : b.value
+  return { value: divide(numerator, denominator, rounding), decimals }
+}
+
+/** -1, 0 or 1, like a sort comparator, `1.5` and `1.50` are equal */
+export function compareAmounts(a: FixedAmount, b: FixedAmount) {
+  const [x, y] = align(a, b)
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+export type FormatAmountOptions = DisplayFormat & {
+  /** locale used to pick the separators, defaults to the runtime locale */
+  locale?: Intl.LocalesArgument
+  /** explicit separators, takes precedence over `locale` */
+  formattingOptions?: FormattingOptions
+}
+
+/** formats like the input does while it isn't focused */
+export function formatAmount(
+  { value, decimals }: FixedAmount,
+  { locale, formattingOptions, ...format }: FormatAmountOptions = {},
+) {
+  const options = formattingOptions ?? getFormattingOptions(locale)
+  return formatDisplayValue(formatMaskedValue(value, decimals, options), decimals, options, format)
+}
@@ -0,0 +1,64 @@
+export type HistoryEntry = { maskedValue: string; cursor: number }
+
+/** `entries[index]` is what's in the input, undo goes back to `index - 1` */
+export type EditHistory = {
+  entries: HistoryEntry[]
+  index: number
+  /** to coalesce consecutive keystrokes of the same kind into a single entry */
+  lastEdit?: { kind: string; timestamp: number }
+}
+
+// keystrokes closer than this are undone together, like the native undo does with a word
+const coalesceInterval = 1000
+const maxEntries = 100
+
+export const createHistory = (entry: HistoryEntry): EditHistory => ({ entries: [entry], index: 0 })
+
+// typing and deleting are coalesced separately, so "123<backspace>" undoes the delete first
+const getEditKind = (inputType: string | undefined) => {
+  if (inputType === 'insertText') return 'insert'
+  if (inputType?.startsWith('delete') && inputType !== 'deleteByCut') return 'delete'
+}
+
+/**
+ * adds what's in the input after an edit, dropping anything that could be redone
+ * `inputType` is the edit's, paste, steps and changes from outside of the input are never coalesced
+ */
+export function pushHistory(
+  history: EditHistory,
+  entry: HistoryEntry,
+  { inputType, timestamp = Date.now() }: { inputType?: string; timestamp?: number } = {},
+): EditHistory {
+  const current = history.entries[history.index]
+  if (current.maskedValue === entry.maskedValue) return history
+
+  const kind = getEditKind(inputType)
+  const lastEdit = kind ? { kind, timestamp } : undefined
+  const canCoalesce =
+    kind !== undefined &&
+    history.index > 0 &&
+    history.index === history.entries.length - 1 &&
+    history.lastEdit?.kind === kind &&
+    timestamp - history.lastEdit.timestamp < coalesceInterval
+
+  if (canCoalesce) {
+    const entries = [...history.entries.slice(0, history.index), entry]
+    return { entries, index: history.index, lastEdit }
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-maxEntries)
+  return { entries, index: entries.length - 1, lastEdit }
+}
+
+export function undoHistory(history: EditHistory): EditHistory | undefined {
+  if (history.index === 0) return
+  return { ...history, index: history.index - 1, lastEdit: undefined }
+}
+
+export function redoHistory(history: EditHistory): EditHistory | undefined {
+  if (history.index === history.entries.length - 1) return
+  return { ...history, index: history.index + 1, lastEdit: undefined }
+}
+
+export const canUndo = (history: EditHistory) => history.index > 0
+export const canRedo = (history: EditHistory) => history.index < history.entries.length - 1
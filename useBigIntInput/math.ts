@@ -0,0 +1,82 @@
+/**
+ * how a division that doesn't fit in an integer is rounded
+ * - `trunc`: toward zero, like bigint division
+ * - `floor` / `ceil`: toward -infinity / +infinity
+ * - `halfUp`: to the nearest, half away from zero
+ * - `halfEven`: to the nearest, half to the even neighbour (banker's rounding)
+ */
+export type RoundingMode = 'trunc' | 'floor' | 'ceil' | 'halfUp' | 'halfEven'
+
+const abs = (value: bigint) => (value < 0n ? -value : value)
+
+export function divide(numerator: bigint, denominator: bigint, rounding: RoundingMode = 'trunc') {
+  const quotient = numerator / denominator // truncates toward zero
+  const remainder = numerator % denominator
+  if (remainder === 0n) return quotient
+
+  const isNegative = numerator < 0n !== denominator < 0n
+  const awayFromZero = isNegative ? quotient - 1n : quotient + 1n
+  switch (rounding) {
+    case 'trunc':
+      return quotient
+    case 'floor':
+      return isNegative ? awayFromZero : quotient
+    case 'ceil':
+      return isNegative ? quotient : awayFromZero
+    case 'halfUp':
+    case 'halfEven': {
+      const half = abs(remainder) * 2n - abs(denominator)
+      if (half > 0n) return awayFromZero
+      if (half < 0n) return quotient
+      return rounding === 'halfUp' || quotient % 2n !== 0n ? awayFromZero : quotient
+    }
+  }
+}
+
+/** moves `value` from `from` decimals to `to` decimals, scaling up is always exact */
+export function rescale(
+  value: bigint,
+  { from, to }: { from: number; to: number },
+  rounding: RoundingMode = 'trunc',
+) {
+  if (to >= from) return value * 10n ** BigInt(to - from)
+  return divide(value, 10n ** BigInt(from - to), rounding)
+}
+
+/** how many quote units (like USD) one whole token is worth, with its own `decimals` */
+export type ExchangeRate = { value: bigint; decimals: number }
+
+export type Conversion = {
+  /** decimals of the token amount */
+  decimals: number
+  /** decimals of the quote amount, like 2 for USD */
+  quoteDecimals: number
+  rate: ExchangeRate
+  /** defaults to `trunc` */
+  rounding?: RoundingMode
+}
+
+export function toQuoteAmount(
+  amount: bigint,
+  { decimals, quoteDecimals, rate, rounding }: Conversion,
+) {
+  // amount / 10^decimals * rate / 10^rate.decimals, in quote units, dividing only once so it rounds only once
+  return divide(
+    amount * rate.value * 10n ** BigInt(quoteDecimals),
+    10n ** BigInt(decimals + rate.decimals),
+    rounding,
+  )
+}
+
+export function fromQuoteAmount(
+  quoteAmount: bigint,
+  { decimals, quoteDecimals, rate, rounding }: Conversion,
+) {
+  // a worthless token can't be bought with any quote amount
+  if (rate.value === 0n) return 0n
+  return divide(
+    quoteAmount * 10n ** BigInt(decimals + rate.decimals),
+    rate.value * 10n ** BigInt(quoteDecimals),
+    rounding,
+  )
+}
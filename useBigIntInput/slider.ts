@@ -0,0 +1,73 @@
+import { divide } from './math'
+
+/** `log` gives small amounts more of the track, for ranges that span many orders of magnitude */
+export type SliderScale = 'linear' | 'log'
+
+export type SliderConfig = {
+  /** defaults to 0 */
+  min?: bigint
+  max: bigint
+  /** how many positions the track has, defaults to 1000 */
+  steps?: number
+  /** defaults to `linear` */
+  scale?: SliderScale
+  /**
+   * values snap to multiples of it (counted from `min`)
+   * defaults to the power of ten closest under one slider step, so the text input shows round numbers
+   */
+  step?: bigint
+}
+
+// numbers lose precision above 2^53, so the math is done on bigints and only the exponents are floats
+
+const log10 = (value: bigint) => {
+  const digits = value.toString()
+  // value = 0.<digits> * 10^length
+  return digits.length + Math.log10(Number(`0.${digits.slice(0, 15)}`))
+}
+
+const pow10 = (exponent: number) => {
+  const integer = Math.floor(exponent)
+  const mantissa = BigInt(Math.round(10 ** (exponent - integer) * 1e15))
+  if (integer >= 15) return mantissa * 10n ** BigInt(integer - 15)
+  return mantissa / 10n ** BigInt(15 - integer)
+}
+
+/** the largest power of ten not above `value` */
+const floorPow10 = (value: bigint) => (value < 1n ? 1n : 10n ** BigInt(value.toString().length - 1))
+
+// the offset from `min` at a position, before snapping
+function offsetAt(position: number, range: bigint, steps: number, scale: SliderScale) {
+  if (scale === 'linear') return divide(range * BigInt(position), BigInt(steps), 'halfUp')
+  // offset + 1 goes from 1 to range + 1 exponentially, so 0 has a position
+  const offset = pow10((position / steps) * log10(range + 1n)) - 1n
+  return offset < 0n ? 0n : offset > range ? range : offset
+}
+
+export function sliderPositionToValue(
+  position: number,
+  { min = 0n, max, steps = 1000, scale = 'linear', step }: SliderConfig,
+) {
+  const range = max - min
+  // the ends are exact, a slider at the end is the max (like the whole balance)
+  if (range <= 0n || position <= 0) return min
+  if (position >= steps) return max
+
+  const offset = offsetAt(position, range, steps, scale)
+  const snap = step ?? floorPow10(offsetAt(position + 1, range, steps, scale) - offset)
+  const snapped = divide(offset, snap, 'halfUp') * snap
+  return min + (snapped > range ? range : snapped)
+}
+
+export function valueToSliderPosition(
+  value: bigint,
+  { min = 0n, max, steps = 1000, scale = 'linear' }: SliderConfig,
+) {
+  const range = max - min
+  if (range <= 0n || value <= min) return 0
+  if (value >= max) return steps
+
+  const offset = value - min
+  if (scale === 'linear') return Number(divide(offset * BigInt(steps), range, 'halfUp'))
+  return Math.round((log10(offset + 1n) / log10(range + 1n)) * steps)
+}
@@ -0,0 +1,70 @@
+import { useMemo, useRef } from 'react'
+import {
+  useController,
+  type FieldPath,
+  type FieldValues,
+  type UseControllerProps,
+} from 'react-hook-form'
+import { useBigIntInput, type UseBigIntInput } from './useBigIntInput'
+
+export type UseBigIntField<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+> = Omit<UseBigIntInput, 'ref' | 'value' | 'defaultValue' | 'onChange' | 'name'> &
+  Pick<UseControllerProps<TFieldValues, TName>, 'control' | 'name' | 'rules' | 'shouldUnregister'>
+
+/**
+ * `useBigIntInput` registered as a react-hook-form field, the form value is the bigint (`null` when empty)
+ * `name` is also the name of `hiddenInputProps`
+ */
+export function useBigIntField<
+  TFieldValues extends FieldValues = FieldValues,
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+>({
+  control,
+  name,
+  rules,
+  shouldUnregister,
+  ...inputOptions
+}: UseBigIntField<TFieldValues, TName>) {
+  const { field, fieldState } = useController({ control, name, rules, shouldUnregister })
+
+  const ref = useRef<HTMLInputElement | null>(null)
+  const input = useBigIntInput({
+    ...inputOptions,
+    ref,
+    name,
+    value: (field.value as bigint | null | undefined) ?? null,
+    onChange: (value, _maskedValue, changedFromProps) => {
+      // the props come from the form already, like after a `reset()`
+      if (!changedFromProps) field.onChange(value)
+    },
+  })
+
+  // the input's own errors (like a paste it couldn't read) come first, then the form's
+  const error = input.error ?? fieldState.error?.message
+
+  const { inputProps, errorId } = input
+  const { ref: fieldRef, onBlur: fieldOnBlur, disabled } = field
+  const fieldInputProps = useMemo(
+    () =>
+      ({
+        ...inputProps,
+        // react-hook-form focuses the element it gets here when the field has an error
+        ref: (element: HTMLInputElement | null) => {
+          ref.current = element
+          fieldRef(element)
+        },
+        onBlur: (e: React.FocusEvent<HTMLInputElement>) => {
+          inputProps.onBlur(e)
+          fieldOnBlur() // marks the field as touched
+        },
+        disabled,
+        'aria-invalid': error !== undefined,
+        'aria-describedby': error !== undefined ? errorId : undefined,
+      }) as const,
+    [inputProps, fieldRef, fieldOnBlur, disabled, error, errorId],
+  )
+
+  return { ...input, inputProps: fieldInputProps, error, fieldState }
+}
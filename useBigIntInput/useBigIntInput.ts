@@ -1,170 +1,728 @@
-import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
-import { formatUnits, parseUnits as viemParseUnits } from 'viem/utils'
-
-type FormattingOptions =
-  | { decimalSeparator: '.'; thousandsSeparator: ',' }
-  | { decimalSeparator: ','; thousandsSeparator: '.' }
-
-// some locales use "," as decimal separator and "." as thousands separator
-const formattingOptions = (() => {
-  const decimalSeparator = (1.1).toLocaleString().substring(1, 2)
-  if (decimalSeparator === '.') return { decimalSeparator: '.', thousandsSeparator: ',' } as const
-  return { decimalSeparator: ',', thousandsSeparator: '.' } as const
-})()
-
-function mask(value: string, options: FormattingOptions = formattingOptions) {
-  const [whole, fraction] = value.split(options.decimalSeparator)
-  const formattedWhole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, options.thousandsSeparator)
-  if (fraction !== undefined) return [formattedWhole, fraction].join(options.decimalSeparator)
-  return formattedWhole
+import { useCallback, useEffect, useId, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { formatUnits } from 'viem/utils'
+import {
+  applyEdit,
+  applyPaste,
+  applyStep,
+  formatDisplayValue,
+  formatMaskedValue,
+  getFormattingOptions,
+  getLocaleDigits,
+  getValueError,
+  limitValue,
+  migrateDecimals,
+  parseValue,
+  toLocaleDigits,
+  type BigIntInputConfig,
+  type DecimalsChangeBehavior,
+  type DisplayFormat,
+  type EditResult,
+  type FormattingOptions,
+  type InputError,
+  type PasteError,
+} from './core'
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type EditHistory,
+} from './history'
+import {
+  addAdornments,
+  getNumberRange,
+  removeAdornments,
+  toNumberPosition,
+  type Adornments,
+} from './adornments'
+import { measureInputWidth, type AutoSize } from './autoSize'
+import { useLatest } from './useLatest'
+import { rescaleAmount, type FixedAmount } from './fixedAmount'
+import { divide } from './math'
+
+export * from './vanilla'
+export * from './useConvertibleBigIntInput'
+export * from './useBigIntSlider'
+export * from './useLinkedBigIntInputs'
+
+export type BigIntInputHandle = {
+  /** like the user typed it, calls `onChange` */
+  setValue: (value: bigint | null) => void
+  clear: () => void
+  getValue: () => bigint | null
+  /** focuses the input with the cursor after the last character */
+  focusEnd: () => void
+  undo: () => void
+  redo: () => void
+  /** sets the whole balance (minus the reserve) and follows it until edited, does nothing without a `balance` */
+  setMax: () => void
+  /** sets a part of the balance (minus the reserve), like 50 for half, rounded down */
+  setPercentage: (percentage: number) => void
 }
 
-const unmask = (value: string, { thousandsSeparator }: FormattingOptions = formattingOptions) => {
-  return value.replaceAll(thousandsSeparator, '')
+/** whatever the validator returns is the error, like a message to show, `undefined` is valid */
+export type ValidationError = string
+
+/** `value` is null when the input is empty, `signal` aborts when the value changes before it's done */
+export type Validator = (
+  value: bigint | null,
+  context: { signal: AbortSignal },
+) => ValidationError | undefined | Promise<ValidationError | undefined>
+
+export type AccessibilityOptions = {
+  /** read after the value, like "WETH" or "US dollars" */
+  unitLabel?: string
+  /** what the live region says when an edit is clamped or rejected, defaults to english messages */
+  announcements?: Partial<Record<InputError, string>>
 }
 
-const parseUnits = (value: string, decimals: number) => {
-  return viemParseUnits(value.replace(',', '.'), decimals)
+export type UseBigIntInput = Omit<BigIntInputConfig, 'formattingOptions'> & {
+  ref: React.RefObject<HTMLInputElement | null>
+  /**
+   * makes the input controlled, it follows this prop whenever it changes, `null` is an empty input
+   * leave it `undefined` for an uncontrolled input
+   * a `FixedAmount` with other decimals is rescaled to `decimals`, dropping the digits that don't fit
+   */
+  value?: bigint | FixedAmount | null
+  /** the initial value of an uncontrolled input */
+  defaultValue?: bigint | FixedAmount | null
+  /** `value` is null when the input is empty */
+  onChange?: (value: bigint | null, maskedValue: string, changedFromProps: boolean) => void
+  /** like `onChange`, with the value as a `FixedAmount` in `decimals` */
+  onAmountChange?: (
+    amount: FixedAmount | null,
+    maskedValue: string,
+    changedFromProps: boolean,
+  ) => void
+  /** locale used to pick the separators, defaults to the runtime locale */
+  locale?: Intl.LocalesArgument
+  /** explicit separators, takes precedence over `locale` */
+  formattingOptions?: FormattingOptions
+  /** defaults to `preserveDisplay` */
+  onDecimalsChange?: DecimalsChangeBehavior
+  /** how the value is shown while the input isn't focused */
+  displayFormat?: DisplayFormat
+  /**
+   * what the user can spend, enables `setMax` and `setPercentage`
+   * after `setMax` (or `setPercentage(100)`) the value follows the balance until it's edited, so "MAX" stays the max
+   */
+  balance?: bigint
+  /** kept out of the max, like some ETH for gas */
+  reserve?: bigint
+  /** run in order once the user stops typing, the first error wins, the latest ones are always used */
+  validate?: Validator | Validator[]
+  /** how long to wait after the last change before validating, defaults to 300ms */
+  validateDelay?: number
+  /** validates again when it changes, like the balance of a "no more than the balance" validator */
+  validateKey?: unknown
+  /**
+   * the name posted by `hiddenInputProps`, forms and FormData get the raw integer string (like "1234500000")
+   * instead of the masked value the user sees
+   */
+  name?: string
+  /**
+   * opts in to spinbutton semantics, so screen readers read the value and its limits as numbers
+   * instead of "1 comma 234 point 5", and to the messages of `liveRegionProps`
+   */
+  accessibility?: AccessibilityOptions
+  /** shows the value with the digits of `locale` (like "١٢٣" in arabic), any digits can be typed either way */
+  localeDigits?: boolean
+  /** sets `style.width` in `inputProps` to fit the value (or the placeholder when empty) */
+  autoSize?: boolean | AutoSize
+  /** shown before the value, like "$", the cursor never goes in it */
+  prefix?: string
+  /** shown after the value, like " ETH", the cursor never goes in it */
+  suffix?: string
 }
+// a verbal form for screen readers, without separators, like "1234.5 WETH"
+const toValueText = (value: bigint, decimals: number, unitLabel?: string) =>
+  unitLabel ? `${formatUnits(value, decimals)} ${unitLabel}` : formatUnits(value, decimals)
 
-function toNumericString(
-  value: string,
-  decimals: number,
-  { decimalSeparator, thousandsSeparator }: FormattingOptions = formattingOptions,
-) {
-  // removes non-numeric characters but keep the first `decimalSeparator`
+// the hook works with bigints in `decimals`, a new object with the same amount isn't a change
+const toBigint = <T extends null | undefined>(value: bigint | FixedAmount | T, decimals: number) =>
+  value == null || typeof value === 'bigint' ? value : rescaleAmount(value, decimals).value
 
-  if (value === decimalSeparator) return ''
+export function useBigIntInput({
+  ref,
+  value: valueOrAmount,
+  defaultValue: defaultValueOrAmount,
+  decimals,
+  onChange: onValueChange,
+  onAmountChange,
+  locale,
+  formattingOptions,
+  min,
+  max,
+  boundsBehavior,
+  allowNegative,
+  allowShorthand,
+  step,
+  largeStep,
+  maxIntegerDigits,
+  maxFractionDigits,
+  maxValueBits,
+  onDecimalsChange = 'preserveDisplay',
+  displayFormat,
+  balance,
+  reserve = 0n,
+  validate,
+  validateDelay = 300,
+  validateKey,
+  name,
+  accessibility,
+  localeDigits = false,
+  autoSize = false,
+  prefix,
+  suffix,
+}: UseBigIntInput) {
+  const value = toBigint(valueOrAmount, decimals)
 
-  if (value.endsWith(thousandsSeparator)) value = value.slice(0, -1) + decimalSeparator
+  const options = useMemo(
+    () => formattingOptions ?? getFormattingOptions(locale),
+    [formattingOptions, locale],
+  )
 
-  // match any character that is not a digit or the decimal separator
-  // then split the string by the decimal separator (maybe the user try to input more than one decimal separator eg. "1.2.3")
-  const [whole, ...fraction] = value
-    .replace(new RegExp(`[^\\d${decimalSeparator}]`, 'g'), '')
-    .split(decimalSeparator)
-  if (fraction.length === 0) return whole
+  const config = useMemo<BigIntInputConfig>(
+    () => ({
+      decimals,
+      formattingOptions: options,
+      min,
+      max,
+      boundsBehavior,
+      allowNegative,
+      allowShorthand,
+      step,
+      largeStep,
+      maxIntegerDigits,
+      maxFractionDigits,
+      maxValueBits,
+    }),
+    [
+      decimals,
+      options,
+      min,
+      max,
+      boundsBehavior,
+      allowNegative,
+      allowShorthand,
+      step,
+      largeStep,
+      maxIntegerDigits,
+      maxFractionDigits,
+      maxValueBits,
+    ],
+  )
 
-  // keeps the first decimals separator and remove the rest
-  const fractionString = fraction.join('').substring(0, decimals) // limit the decimals
-  return [whole, fractionString].join(decimalSeparator)
-}
+  // values that weren't typed can go over the limits too, those are brought within them
+  const formatValue = useCallback(
+    (value: bigint | null) =>
+      value === null ? '' : formatMaskedValue(limitValue(value, config), decimals, options),
+    [config, decimals, options],
+  )
 
-const removeCharAt = (value: string, index: number) =>
-  value.slice(0, index - 1) + value.slice(index)
+  const [input, setInput] = useState<{
+    internalValue: string
+    cursor: number
+    pasteError?: PasteError
+    // the user chose the max, every other change sets a state without it
+    followsMax?: boolean
+  }>(() => {
+    const initialValue = value === undefined ? toBigint(defaultValueOrAmount, decimals) : value
+    const internalValue = formatValue(initialValue ?? null)
+    return { internalValue, cursor: internalValue.length }
+  })
 
-const adjustCursorPosition = (inputValue: string, maskedInput: string, cursor: number) => {
-  let cursorPosition = cursor
+  const [isFocused, setIsFocused] = useState(false)
 
-  // masked is LONGER than the input value when we ADD a thousand separator
-  // so we jump cursor one position
-  if (inputValue.length < maskedInput.length) cursorPosition = cursorPosition + 1
+  const adornments = useMemo<Adornments>(() => ({ prefix, suffix }), [prefix, suffix])
 
-  // masked is SMALLER than the input value when we REMOVE a thousand separator
-  // so we move cursor back one position
-  if (inputValue.length > maskedInput.length) cursorPosition = cursorPosition - 1
+  // react can't keep track of the cursor position when the input value changes and it's not the same e.target.value
+  // so to make the mask work we have to keep track of the cursor position and set it manually
+  useLayoutEffect(() => {
+    const element = ref.current
+    // the cursor is a position in the number, the prefix is before it
+    const { start } = getNumberRange(input.internalValue, adornments)
+    // setting the selection of a blurred input focuses it in some browsers
+    if (element && element === element.ownerDocument.activeElement)
+      element.setSelectionRange(start + input.cursor, start + input.cursor)
+  }, [input, ref, adornments])
 
-  return cursorPosition > 0 ? cursorPosition : 0
-}
+  // use this "latest ref pattern" so the user don't need to worry about stabilizing the `onChange` callback
+  const latestRef = useLatest({ onValueChange, onAmountChange, decimals, validate, accessibility })
+
+  const emitChange = useCallback(
+    (value: bigint | null, maskedValue: string, changedFromProps: boolean) => {
+      const { onValueChange, onAmountChange, decimals } = latestRef.current
+      onValueChange?.(value, maskedValue, changedFromProps)
+      onAmountChange?.(value === null ? null : { value, decimals }, maskedValue, changedFromProps)
+    },
+    [latestRef],
+  )
 
-function handleMaskedInput(
-  e: React.ChangeEvent<HTMLInputElement>,
-  decimals: number,
-  { thousandsSeparator }: FormattingOptions = formattingOptions,
-) {
-  const rawInputValue = e.target.value
-  const numericValue = toNumericString(rawInputValue, decimals)
-  const maskedValue = mask(numericValue)
+  // the event handlers read the state from here, so they don't change on every keystroke
+  const stateRef = useRef(input)
+  useLayoutEffect(() => {
+    stateRef.current = input
+  })
+
+  // what the input shows, with the adornments, the positions of the events are in it
+  const displayedRef = useRef('')
 
-  const cursor = e.target.selectionStart ?? maskedValue.length // should only be null when the input is blurred, fallback to end just in case and to make ts happy
+  // the browser undo doesn't work when we replace the value on every keystroke, so we keep our own
+  // it lives in a ref because the handlers need it right away, `historyStatus` is what renders
+  const [initialHistory] = useState(() =>
+    createHistory({ maskedValue: input.internalValue, cursor: input.cursor }),
+  )
+  const historyRef = useRef(initialHistory)
+  const [historyStatus, setHistoryStatus] = useState({ canUndo: false, canRedo: false })
+
+  const updateHistory = useCallback((history: EditHistory) => {
+    historyRef.current = history
+    const status = { canUndo: canUndo(history), canRedo: canRedo(history) }
+    setHistoryStatus((s) =>
+      s.canUndo === status.canUndo && s.canRedo === status.canRedo ? s : status,
+    )
+  }, [])
 
-  // if the user tries to delete a thousand separator we delete the number before it
+  // changes that didn't come from the user (the props changed) are reported in an effect, never during render
+  const [pendingChange, setPendingChange] = useState<{
+    value: bigint | null
+    maskedValue: string
+    changedFromProps: boolean
+    /** the previous entries were masked with other decimals */
+    resetHistory: boolean
+    /** only the history changes, the parent already has this value */
+    silent?: boolean
+  }>()
+  useLayoutEffect(() => {
+    if (!pendingChange) return
+    const { value, maskedValue, changedFromProps, resetHistory, silent } = pendingChange
+    const entry = { maskedValue, cursor: maskedValue.length }
+    updateHistory(resetHistory ? createHistory(entry) : pushHistory(historyRef.current, entry))
+    if (!silent) emitChange(value, maskedValue, changedFromProps)
+  }, [pendingChange, updateHistory, emitChange])
+
+  // the reserve can be more than what's left
+  const maxAmount = balance === undefined ? undefined : balance > reserve ? balance - reserve : 0n
+
+  // the props as of the last render, to know what changed
+  const [previousProps, setPreviousProps] = useState({ value, decimals, maxAmount })
   if (
-    'inputType' in e.nativeEvent && // TODO: check if it's react ts types missing or something else (?)
-    e.nativeEvent.inputType === 'deleteContentBackward' &&
-    maskedValue[cursor] === thousandsSeparator
+    value !== previousProps.value ||
+    decimals !== previousProps.decimals ||
+    maxAmount !== previousProps.maxAmount
   ) {
-    // the input before the mask doesn't have thousand separators, but the cursor is in an index of a masked input
-    // so we have to remove the thousand separators before the cursor, to find the correct index in the unmasked input
-    const thousandSeparatorsBeforeCursor =
-      maskedValue.slice(0, cursor).split(thousandsSeparator).length - 1
-
-    // here we remove the number behind the thousand separator the cursor is on
-    // like 1,000,000,|000
-    //                ^ cursor is here (gonna delete the 0 before the comma)
-    const newNumericValue = removeCharAt(numericValue, cursor - thousandSeparatorsBeforeCursor)
-    const newMaskedInput = mask(newNumericValue)
-
-    // adjust the cursor if the new value is more than one character shorter than the previous one
-    // like 1,000,000,000 -> 100,000,000 (removed one "0" and one ",")
-    // the other case is 10,000,000,000 -> 1,000,000,000 (removed just one "0")
-    const newCursor = maskedValue.length - newMaskedInput.length > 1 ? cursor - 2 : cursor - 1
+    setPreviousProps({ value, decimals, maxAmount })
 
-    return {
-      numericValue: newNumericValue,
-      maskedValue: newMaskedInput,
-      cursor: newCursor > 0 ? newCursor : 0,
+    // update internal value if the value prop changes
+    if (value !== undefined && value !== previousProps.value) {
+      const limitedValue = value === null ? null : limitValue(value, config)
+      if (limitedValue !== parseValue(input.internalValue, decimals, options)) {
+        const maskedValue = formatValue(limitedValue)
+        setInput((s) => ({ internalValue: maskedValue, cursor: s.cursor }))
+        setPendingChange({
+          value: limitedValue,
+          maskedValue,
+          changedFromProps: true,
+          resetHistory: decimals !== previousProps.decimals,
+        })
+      }
+    }
+    // the masked value was typed with the previous decimals, the parent gets the migrated value with `onChange`
+    else if (decimals !== previousProps.decimals) {
+      const migrated = migrateDecimals(
+        input.internalValue,
+        { from: previousProps.decimals, to: decimals },
+        onDecimalsChange,
+        options,
+      )
+      // more decimals can go over `maxFractionDigits`, and less can go over the integer limits
+      const maskedValue =
+        migrated.maskedValue && limitValue(migrated.bigint, config) !== migrated.bigint
+          ? formatValue(migrated.bigint)
+          : migrated.maskedValue
+      const migratedValue = parseValue(maskedValue, decimals, options)
+      setInput((s) => ({
+        internalValue: maskedValue,
+        cursor: Math.min(s.cursor, maskedValue.length),
+      }))
+      setPendingChange({
+        value: migratedValue,
+        maskedValue,
+        changedFromProps: false,
+        resetHistory: true,
+        // like an empty input, nothing the user sees or gets changed
+        silent:
+          maskedValue === input.internalValue &&
+          migratedValue === parseValue(input.internalValue, previousProps.decimals, options),
+      })
+    }
+    // the balance refreshed after the user chose the max, it's not an echo of `value` so the parent has to hear it
+    else if (input.followsMax && maxAmount !== undefined) {
+      const maskedValue = formatValue(maxAmount)
+      setInput((s) => ({ internalValue: maskedValue, cursor: s.cursor, followsMax: true }))
+      setPendingChange({
+        value: parseValue(maskedValue, decimals, options),
+        maskedValue,
+        changedFromProps: false,
+        resetHistory: false,
+      })
     }
   }
 
-  return {
-    numericValue,
-    maskedValue,
-    cursor: adjustCursorPosition(rawInputValue, maskedValue, cursor),
-  }
-}
+  // what the live region says, only set when `accessibility` is
+  const [announcement, setAnnouncement] = useState('')
 
-export type UseBigIntInput = {
-  ref: React.RefObject<HTMLInputElement | null>
-  value?: bigint
-  decimals: number
-  onChange: (value: bigint, maskedValue: string, changedFromProps: boolean) => void
-}
-export function useBigIntInput({ ref, value, decimals, onChange: onValueChange }: UseBigIntInput) {
-  const [input, setInput] = useState(() => {
-    const internalValue = value ? mask(formatUnits(value, decimals)) : ''
-    return { internalValue, cursor: internalValue.length }
-  })
+  const commitResult = useCallback(
+    (result: EditResult, inputType?: string) => {
+      const { accessibility } = latestRef.current
+      if (accessibility) {
+        const { unitLabel, announcements } = accessibility
+        const { decimals, min = 0n, max = 0n, maxIntegerDigits, maxFractionDigits } = config
+        const reason = result.pasteError ?? result.boundsError ?? result.limitError
+        const defaultAnnouncements: Record<InputError, string> = {
+          overMax: `The maximum is ${toValueText(max, decimals, unitLabel)}`,
+          underMin: `The minimum is ${toValueText(min, decimals, unitLabel)}`,
+          invalidPaste: "The pasted text isn't a number",
+          ambiguousPaste: 'The pasted number could be read in more than one way',
+          maxIntegerDigits: `At most ${maxIntegerDigits} digits before the decimal separator`,
+          maxFractionDigits: `At most ${maxFractionDigits} decimals`,
+          maxValueBits: 'The number is too large',
+        }
+        setAnnouncement(reason ? (announcements?.[reason] ?? defaultAnnouncements[reason]) : '')
+      }
 
-  // react can't keep track of the cursor position when the input value changes and it's not the same e.target.value
-  // so to make the mask work we have to keep track of the cursor position and set it manually
-  useLayoutEffect(() => {
-    ref.current?.setSelectionRange(input.cursor, input.cursor)
-  }, [input, ref])
+      // a rejected edit sets a new object with the previous value, so the layout effect puts the cursor back
+      setInput({
+        internalValue: result.maskedValue,
+        cursor: result.cursor,
+        pasteError: result.pasteError,
+      })
+      if (!result.rejected) {
+        updateHistory(pushHistory(historyRef.current, result, { inputType }))
+        const value = parseValue(result.maskedValue, config.decimals, config.formattingOptions)
+        emitChange(value, result.maskedValue, false)
+      }
+    },
+    [config, latestRef, updateHistory, emitChange],
+  )
 
-  // use this "latest ref pattern" so the user don't need to worry about stabilizing the `onChange` callback
-  const onValueChangeRef = useRef(onValueChange)
-  useLayoutEffect(() => {
-    onValueChangeRef.current = onValueChange
-  })
+  const travelHistory = useCallback(
+    (history: EditHistory | undefined) => {
+      if (!history) return
+      updateHistory(history)
+      const { maskedValue, cursor } = history.entries[history.index]
+      setInput({ internalValue: maskedValue, cursor })
+      const value = parseValue(maskedValue, config.decimals, config.formattingOptions)
+      emitChange(value, maskedValue, false)
+    },
+    [config, updateHistory, emitChange],
+  )
+  const undo = useCallback(() => travelHistory(undoHistory(historyRef.current)), [travelHistory])
+  const redo = useCallback(() => travelHistory(redoHistory(historyRef.current)), [travelHistory])
 
-  // update internal value if the value prop changes
-  if (value !== undefined && value !== parseUnits(unmask(input.internalValue), decimals)) {
-    const maskedValue = mask(formatUnits(value, decimals))
-    const newInternalValue = value === 0n ? '' : maskedValue
-    setInput((s) => ({ internalValue: newInternalValue, cursor: s.cursor }))
-    onValueChangeRef.current?.(value, newInternalValue, true)
-  }
+  const getState = useCallback(
+    () => ({ maskedValue: stateRef.current.internalValue, cursor: stateRef.current.cursor }),
+    [],
+  )
 
   const onChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const { numericValue, maskedValue, cursor } = handleMaskedInput(e, decimals)
+      const { value, selectionStart, selectionEnd } = e.target
+      // react types `nativeEvent` as a plain Event, but browsers fire an InputEvent
+      const inputType = e.nativeEvent instanceof InputEvent ? e.nativeEvent.inputType : undefined
+      // the browser undo (from the context menu) would restore one of its own values, we use ours instead
+      if (inputType === 'historyUndo') return undo()
+      if (inputType === 'historyRedo') return redo()
+      // only a focused input is edited, even if our `onFocus` was replaced by one of the consumer
+      setIsFocused(true)
+      const displayed = displayedRef.current
+      const edit = removeAdornments(
+        { value, selectionStart, selectionEnd, inputType },
+        displayed,
+        adornments,
+      )
+      // only the adornments were edited, they're put back with the cursor next to the number
+      const { start, end } = getNumberRange(displayed, adornments)
+      if (edit.value === displayed.slice(start, end))
+        return setInput((s) => ({ ...s, cursor: edit.selectionEnd ?? s.cursor }))
+      commitResult(applyEdit(getState(), edit, config), inputType)
+    },
+    [config, adornments, commitResult, getState, undo, redo],
+  )
 
-      setInput({ internalValue: maskedValue, cursor })
-      onValueChangeRef.current?.(parseUnits(numericValue, decimals), maskedValue, false)
+  const onPaste = useCallback(
+    (e: React.ClipboardEvent<HTMLInputElement>) => {
+      e.preventDefault() // we insert the cleaned up value ourselves
+      const toPosition = (position: number | null) =>
+        toNumberPosition(position, displayedRef.current, adornments)
+      const selectionStart = toPosition(e.currentTarget.selectionStart)
+      const selectionEnd = toPosition(e.currentTarget.selectionEnd)
+      const text = e.clipboardData.getData('text')
+      commitResult(applyPaste(getState(), { text, selectionStart, selectionEnd }, config))
+    },
+    [config, adornments, commitResult, getState],
+  )
+
+  const onKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      const { key, shiftKey } = e
+
+      // Cmd/Ctrl+Z undoes, with Shift (or Ctrl+Y) it redoes
+      if ((e.metaKey || e.ctrlKey) && !e.altKey && /^[zy]$/i.test(key)) {
+        e.preventDefault()
+        if (shiftKey || key.toLowerCase() === 'y') redo()
+        else undo()
+        return
+      }
+
+      const selectionStart = toNumberPosition(
+        e.currentTarget.selectionStart,
+        displayedRef.current,
+        adornments,
+      )
+      const result = applyStep(getState(), { key, shiftKey, selectionStart }, config)
+      if (!result) return
+      e.preventDefault() // don't move the cursor or scroll the page
+      if (!result.rejected) commitResult(result)
+    },
+    [config, adornments, commitResult, getState, undo, redo],
+  )
+
+  const onFocus = useCallback(() => {
+    setIsFocused(true)
+    // back to the editable value, a new object so the layout effect puts the cursor where it was on blur
+    setInput((s) => ({ ...s }))
+  }, [])
+
+  const onBlur = useCallback(
+    (e: React.FocusEvent<HTMLInputElement>) => {
+      const { selectionStart } = e.currentTarget
+      const cursor = toNumberPosition(selectionStart, displayedRef.current, adornments)
+      setIsFocused(false)
+      setInput((s) => ({ ...s, cursor: cursor ?? s.cursor }))
+    },
+    [adornments],
+  )
+
+  // clicks and arrow keys can put the cursor in the adornments, it's moved back to the number
+  // a selection over them (like select all) stays, the edit that replaces it leaves them alone
+  const onSelect = useCallback(
+    (e: React.SyntheticEvent<HTMLInputElement>) => {
+      const element = e.currentTarget
+      const { selectionStart, selectionEnd } = element
+      if (selectionStart === null || selectionStart !== selectionEnd) return
+      const { start, end } = getNumberRange(element.value, adornments)
+      const cursor = Math.min(Math.max(selectionStart, start), end)
+      if (cursor !== selectionStart) element.setSelectionRange(cursor, cursor)
     },
-    [decimals],
+    [adornments],
+  )
+
+  const handle = useMemo<BigIntInputHandle>(() => {
+    const setValue = (value: bigint | null, followsMax = false) => {
+      const maskedValue = formatValue(value)
+      const entry = { maskedValue, cursor: maskedValue.length }
+      setInput({ internalValue: maskedValue, cursor: entry.cursor, followsMax })
+      updateHistory(pushHistory(historyRef.current, entry))
+      emitChange(parseValue(maskedValue, decimals, options), maskedValue, false)
+    }
+    return {
+      setValue: (value) => setValue(value),
+      clear: () => setValue(null),
+      getValue: () => parseValue(stateRef.current.internalValue, decimals, options),
+      focusEnd: () => {
+        ref.current?.focus()
+        setInput((s) => ({ ...s, cursor: s.internalValue.length }))
+      },
+      undo,
+      redo,
+      setMax: () => {
+        if (maxAmount !== undefined) setValue(maxAmount, true)
+      },
+      setPercentage: (percentage: number) => {
+        // basis points keep fractional percentages like 12.5 exact
+        const basisPoints = BigInt(Math.round(percentage * 100))
+        if (maxAmount !== undefined)
+          setValue(divide(maxAmount * basisPoints, 10000n, 'floor'), basisPoints >= 10000n)
+      },
+    }
+  }, [decimals, options, formatValue, ref, updateHistory, emitChange, undo, redo, maxAmount])
+
+  // the value is kept with ascii digits, the locale ones are only shown
+  const digits = useMemo(
+    () => (localeDigits ? getLocaleDigits(locale) : '0123456789'),
+    [localeDigits, locale],
+  )
+
+  const displayValue = useMemo(() => {
+    const value = isFocused
+      ? input.internalValue
+      : formatDisplayValue(input.internalValue, decimals, options, displayFormat)
+    return addAdornments(toLocaleDigits(value, digits), adornments)
+  }, [isFocused, input.internalValue, decimals, options, displayFormat, digits, adornments])
+  useLayoutEffect(() => {
+    displayedRef.current = displayValue
+  })
+
+  const placeholder = addAdornments(
+    toLocaleDigits(`0${options.decimalSeparator}00`, digits),
+    adornments,
+  )
+
+  const [width, setWidth] = useState<number>()
+  const isAutoSized = autoSize !== false
+  const { min: minWidth, max: maxWidth } = typeof autoSize === 'object' ? autoSize : {}
+  const measuredText = displayValue || placeholder
+  // measured before paint, so the input never shows the old width with the new value
+  useLayoutEffect(() => {
+    const element = ref.current
+    if (!isAutoSized || !element) return
+    const measure = () =>
+      setWidth(measureInputWidth(element, measuredText, { min: minWidth, max: maxWidth }))
+    measure()
+    // the font can change with a class, or when a web font finishes loading
+    const observer = new MutationObserver(measure)
+    observer.observe(element, { attributes: true, attributeFilter: ['class'] })
+    const fonts = element.ownerDocument.fonts
+    fonts?.addEventListener('loadingdone', measure)
+    return () => {
+      observer.disconnect()
+      fonts?.removeEventListener('loadingdone', measure)
+    }
+  }, [isAutoSized, measuredText, minWidth, maxWidth, ref])
+
+  const isMax =
+    maxAmount !== undefined && parseValue(input.internalValue, decimals, options) === maxAmount
+
+  const [validation, setValidation] = useState<{
+    error?: ValidationError
+    isValidating: boolean
+    // what a validator threw, like a failed request, not a validation error
+    failure?: unknown
+  }>({ isValidating: false })
+
+  const currentValue = parseValue(input.internalValue, decimals, options)
+  // inline validators are new functions on every render, only adding or removing them validates again
+  const hasValidators = [validate ?? []].flat().length > 0
+  useEffect(() => {
+    const validators = [latestRef.current.validate ?? []].flat()
+    // nothing validates anymore, so nothing from before is left
+    if (!validators.length) {
+      setValidation((v) =>
+        v.error === undefined && v.failure === undefined && !v.isValidating
+          ? v
+          : { isValidating: false },
+      )
+      return
+    }
+
+    // the previous error stays until the new value is validated, so it doesn't flicker while typing
+    setValidation((v) => (v.isValidating ? v : { ...v, isValidating: true }))
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      let error: ValidationError | undefined
+      try {
+        for (const validator of validators) {
+          error = await validator(currentValue, { signal: controller.signal })
+          if (error !== undefined) break
+        }
+      } catch (failure) {
+        if (controller.signal.aborted) return
+        setValidation({ isValidating: false, failure })
+        return
+      }
+      // a stale result, the value changed while it was validating
+      if (controller.signal.aborted) return
+      setValidation({ error, isValidating: false })
+    }, validateDelay)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [currentValue, hasValidators, validateKey, validateDelay, latestRef])
+
+  // for `aria-describedby`, render the error in an element with this id
+  const errorId = useId()
+
+  const error: InputError | ValidationError | undefined =
+    input.pasteError ?? getValueError(input.internalValue, config) ?? validation.error
+
+  const accessibilityProps = useMemo(() => {
+    if (!accessibility) return undefined
+    const { unitLabel } = accessibility
+    // numbers for the value and the limits, the exact value is in the text
+    const toValueNow = (value: bigint) => Number(formatUnits(value, decimals))
+    return {
+      role: 'spinbutton',
+      'aria-valuenow': currentValue === null ? undefined : toValueNow(currentValue),
+      'aria-valuetext':
+        currentValue === null ? undefined : toValueText(currentValue, decimals, unitLabel),
+      'aria-valuemin': min === undefined ? undefined : toValueNow(min),
+      'aria-valuemax': max === undefined ? undefined : toValueNow(max),
+    } as const
+  }, [accessibility, currentValue, decimals, min, max])
+
+  const liveRegionProps = useMemo(
+    () => ({ role: 'status', 'aria-live': 'polite', children: announcement }) as const,
+    [announcement],
   )
 
-  return useMemo(
+  const inputProps = useMemo(
     () =>
       ({
-        value: input.internalValue,
+        ...accessibilityProps,
+        value: displayValue,
         onChange,
+        onKeyDown,
+        onPaste,
+        onFocus,
+        onBlur,
+        onSelect,
         ref,
         inputMode: 'decimal',
-        placeholder: `0${formattingOptions.decimalSeparator}00`,
+        placeholder,
+        style: isAutoSized && width !== undefined ? { width } : undefined,
+        'aria-invalid': error !== undefined,
+        'aria-describedby': error !== undefined ? errorId : undefined,
       }) as const,
-    [input.internalValue, onChange, ref],
+    [
+      accessibilityProps,
+      displayValue,
+      onChange,
+      onKeyDown,
+      onPaste,
+      onFocus,
+      onBlur,
+      onSelect,
+      ref,
+      placeholder,
+      isAutoSized,
+      width,
+      error,
+      errorId,
+    ],
+  )
+
+  // the visible input has no name, so only the unambiguous value is submitted
+  const hiddenInputProps = useMemo(
+    () => ({ type: 'hidden', name, value: currentValue?.toString() ?? '' }) as const,
+    [name, currentValue],
   )
+
+  return {
+    inputProps,
+    hiddenInputProps,
+    liveRegionProps,
+    error,
+    errorId,
+    isValidating: validation.isValidating,
+    validationFailure: validation.failure,
+    handle,
+    isMax,
+    ...historyStatus,
+  }
 }
@@ -0,0 +1,64 @@
+import { useCallback, useMemo, useState } from 'react'
+import { sliderPositionToValue, valueToSliderPosition, type SliderConfig } from './slider'
+import { useLatest } from './useLatest'
+
+export type UseBigIntSlider = SliderConfig & {
+  /**
+   * the same value the text input has, `null` (an empty input) puts the slider at `min`
+   * the text input follows the slider through its `value` prop (or `handle.setValue`), and the
+   * `onChange` it fires back with `changedFromProps` is only an echo, so there's nothing to loop
+   */
+  value: bigint | null
+  onChange: (value: bigint) => void
+}
+
+export function useBigIntSlider({
+  value,
+  onChange,
+  min = 0n,
+  max,
+  steps = 1000,
+  scale = 'linear',
+  step,
+}: UseBigIntSlider) {
+  const config = useMemo<Required<Omit<SliderConfig, 'step'>> & Pick<SliderConfig, 'step'>>(
+    () => ({ min, max, steps, scale, step }),
+    [min, max, steps, scale, step],
+  )
+
+  const onChangeRef = useLatest(onChange)
+
+  // snapping makes many positions map to one value, so the thumb stays where it was dragged
+  // as long as the value is still the one it produced, instead of jumping to the value's position
+  const [dragged, setDragged] = useState<{ position: number; value: bigint }>()
+  const position =
+    dragged && dragged.value === value
+      ? dragged.position
+      : valueToSliderPosition(value ?? config.min, config)
+
+  const onSliderChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const position = Number(e.target.value)
+      const newValue = sliderPositionToValue(position, config)
+      setDragged({ position, value: newValue })
+      if (newValue !== value) onChangeRef.current(newValue)
+    },
+    [config, value, onChangeRef],
+  )
+
+  const sliderProps = useMemo(
+    () =>
+      ({
+        type: 'range',
+        min: 0,
+        max: config.steps,
+        step: 1,
+        value: position,
+        onChange: onSliderChange,
+        disabled: config.max <= config.min,
+      }) as const,
+    [config, position, onSliderChange],
+  )
+
+  return { sliderProps, position }
+}
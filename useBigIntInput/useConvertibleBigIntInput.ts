@@ -0,0 +1,122 @@
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { fromQuoteAmount, toQuoteAmount, type Conversion, type ExchangeRate } from './math'
+import { useBigIntInput, type UseBigIntInput } from './useBigIntInput'
+import { useLatest } from './useLatest'
+
+/** `token` edits the amount itself, `quote` edits what it's worth (like USD) */
+export type AmountUnit = 'token' | 'quote'
+
+/** `null` when the input is empty */
+export type ConvertedAmounts = { token: bigint | null; quote: bigint | null }
+
+export type UseConvertibleBigIntInput = Omit<
+  UseBigIntInput,
+  | 'value'
+  | 'defaultValue'
+  | 'onChange'
+  | 'onAmountChange'
+  | 'onDecimalsChange'
+  | 'step'
+  | 'largeStep'
+> &
+  Omit<Conversion, 'rate'> & {
+    rate: ExchangeRate
+    /** the initial token amount */
+    defaultValue?: bigint | null
+    /** defaults to `token` */
+    defaultUnit?: AmountUnit
+    /** called when any of the amounts changes, even if only the rate did */
+    onChange: (amounts: ConvertedAmounts, unit: AmountUnit) => void
+  }
+
+type EditedAmount = { unit: AmountUnit; value: bigint | null }
+
+function convertAmounts({ unit, value }: EditedAmount, conversion: Conversion): ConvertedAmounts {
+  if (value === null) return { token: null, quote: null }
+  if (unit === 'token') return { token: value, quote: toQuoteAmount(value, conversion) }
+  return { token: fromQuoteAmount(value, conversion), quote: value }
+}
+
+export function useConvertibleBigIntInput({
+  decimals,
+  quoteDecimals,
+  rate: { value: rateValue, decimals: rateDecimals },
+  rounding = 'trunc',
+  defaultValue = null,
+  defaultUnit = 'token',
+  onChange,
+  min,
+  max,
+  balance,
+  reserve,
+  ...inputOptions
+}: UseConvertibleBigIntInput) {
+  const conversion = useMemo<Conversion>(
+    () => ({
+      decimals,
+      quoteDecimals,
+      rate: { value: rateValue, decimals: rateDecimals },
+      rounding,
+    }),
+    [decimals, quoteDecimals, rateValue, rateDecimals, rounding],
+  )
+
+  // only the amount being edited is kept, exactly as typed, the other one is always converted from it
+  // so a moving rate never changes what the user is typing
+  // `switchedFrom` is the amount before the last unit switch, until the user edits the converted one
+  const [edited, setEdited] = useState<EditedAmount & { switchedFrom?: EditedAmount }>(() => ({
+    unit: defaultUnit,
+    value: convertAmounts({ unit: 'token', value: defaultValue }, conversion)[defaultUnit],
+  }))
+
+  const amounts = useMemo(() => convertAmounts(edited, conversion), [edited, conversion])
+
+  const onChangeRef = useLatest(onChange)
+
+  // edits, unit switches and rate updates all end up here, so the parent always hears about both amounts
+  const reportedRef = useRef(amounts)
+  useLayoutEffect(() => {
+    const reported = reportedRef.current
+    reportedRef.current = amounts
+    if (reported.token !== amounts.token || reported.quote !== amounts.quote)
+      onChangeRef.current(amounts, edited.unit)
+  }, [amounts, edited.unit, onChangeRef])
+
+  const setUnit = useCallback(
+    (unit: AmountUnit) =>
+      setEdited((e) => {
+        if (e.unit === unit) return e
+        // switching back restores what was typed, converting the rounded conversion back would lose some of it
+        if (e.switchedFrom?.unit === unit) return e.switchedFrom
+        const switchedFrom = { unit: e.unit, value: e.value }
+        return { unit, value: convertAmounts(e, conversion)[unit], switchedFrom }
+      }),
+    [conversion],
+  )
+  const toggleUnit = useCallback(
+    () => setUnit(edited.unit === 'token' ? 'quote' : 'token'),
+    [edited.unit, setUnit],
+  )
+
+  // the bounds and the balance are token amounts, they're converted like the value when editing the quote
+  const toEditedUnit = (bound: bigint | undefined) =>
+    bound === undefined || edited.unit === 'token' ? bound : toQuoteAmount(bound, conversion)
+
+  const input = useBigIntInput({
+    ...inputOptions,
+    decimals: edited.unit === 'token' ? decimals : quoteDecimals,
+    min: toEditedUnit(min),
+    max: toEditedUnit(max),
+    balance: toEditedUnit(balance),
+    reserve: toEditedUnit(reserve),
+    value: edited.value,
+    // the unit and the value change together, but a converted value can happen to be the same bigint
+    onDecimalsChange: 'preserveBigint',
+    onChange: (value, _maskedValue, changedFromProps) => {
+      // the props come from `edited` already
+      if (!changedFromProps) setEdited((e) => ({ unit: e.unit, value }))
+    },
+  })
+
+  return { ...input, amounts, unit: edited.unit, setUnit, toggleUnit }
+}
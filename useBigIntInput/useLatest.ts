@@ -0,0 +1,10 @@
+import { useLayoutEffect, useRef } from 'react'
+
+/** a ref that always has the latest `value`, so the callbacks given to a hook don't have to be stable */
+export function useLatest<T>(value: T) {
+  const ref = useRef(value)
+  useLayoutEffect(() => {
+    ref.current = value
+  })
+  return ref
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { useBigIntInput, type UseBigIntInput } from './useBigIntInput'
+import { useLatest } from './useLatest'
+
+/** the side the user typed in, `sell` is exact-in and `buy` is exact-out */
+export type LinkedDirection = 'sell' | 'buy'
+
+/** `null` when the input is empty */
+export type LinkedValues = Record<LinkedDirection, bigint | null>
+
+/** the amount of the other side, `null` when there's no quote (like no liquidity) */
+export type LinkedQuote = (
+  amount: bigint,
+  direction: LinkedDirection,
+  signal: AbortSignal,
+) => Promise<bigint | null>
+
+export type LinkedInputOptions = Omit<
+  UseBigIntInput,
+  'value' | 'defaultValue' | 'onChange' | 'onAmountChange'
+>
+
+export type UseLinkedBigIntInputs = {
+  sell: LinkedInputOptions
+  buy: LinkedInputOptions
+  /** quotes the side the user didn't type in, the latest one is always used */
+  quote: LinkedQuote
+  /** how long to wait after the last change before quoting, defaults to 300ms */
+  quoteDelay?: number
+  /** quotes again when it changes, like the tokens, `refresh` does it on demand */
+  quoteKey?: unknown
+  defaultValues?: Partial<LinkedValues>
+  /** defaults to `sell` */
+  defaultDirection?: LinkedDirection
+  /** called when any of the values changes, typed or quoted */
+  onChange?: (values: LinkedValues, direction: LinkedDirection) => void
+}
+
+const otherSide = (direction: LinkedDirection): LinkedDirection =>
+  direction === 'sell' ? 'buy' : 'sell'
+
+export function useLinkedBigIntInputs({
+  sell,
+  buy,
+  quote,
+  quoteDelay = 300,
+  quoteKey,
+  defaultValues,
+  defaultDirection = 'sell',
+  onChange,
+}: UseLinkedBigIntInputs) {
+  const [linked, setLinked] = useState<{ direction: LinkedDirection; values: LinkedValues }>(
+    () => ({
+      direction: defaultDirection,
+      values: { sell: defaultValues?.sell ?? null, buy: defaultValues?.buy ?? null },
+    }),
+  )
+  const { direction, values } = linked
+  const amount = values[direction]
+
+  const [quoteState, setQuoteState] = useState<{ isQuoting: boolean; error?: unknown }>({
+    isQuoting: false,
+  })
+
+  // the quoted side has a value for the old decimals (like after picking another token),
+  // it's emptied so its input doesn't migrate it and report that as the user typing
+  const [previousDecimals, setPreviousDecimals] = useState({
+    sell: sell.decimals,
+    buy: buy.decimals,
+  })
+  if (sell.decimals !== previousDecimals.sell || buy.decimals !== previousDecimals.buy) {
+    setPreviousDecimals({ sell: sell.decimals, buy: buy.decimals })
+    const quoted = otherSide(direction)
+    if ({ sell, buy }[quoted].decimals !== previousDecimals[quoted])
+      setLinked({ direction, values: { ...values, [quoted]: null } })
+  }
+
+  const onChangeRef = useLatest(onChange)
+  // an inline `quote` is a new function on every render, it only quotes again on `quoteKey` or `refresh`
+  const quoteRef = useLatest(quote)
+  const [refreshes, setRefreshes] = useState(0)
+  const refresh = useCallback(() => setRefreshes((n) => n + 1), [])
+
+  const reportedRef = useRef(values)
+  useLayoutEffect(() => {
+    const reported = reportedRef.current
+    reportedRef.current = values
+    if (reported.sell !== values.sell || reported.buy !== values.buy)
+      onChangeRef.current?.(values, direction)
+  }, [values, direction, onChangeRef])
+
+  useEffect(() => {
+    const quoted = otherSide(direction)
+    // nothing to quote, the other side just follows
+    if (amount === null || amount === 0n) {
+      setLinked((s) =>
+        s.values[quoted] === amount ? s : { ...s, values: { ...s.values, [quoted]: amount } },
+      )
+      setQuoteState({ isQuoting: false })
+      return
+    }
+
+    setQuoteState((s) => (s.isQuoting ? s : { ...s, isQuoting: true }))
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const quotedAmount = await quoteRef.current(amount, direction, controller.signal)
+        if (controller.signal.aborted) return
+        // only the other side is written, and only if the user is still at the amount it was quoted for
+        setLinked((s) =>
+          s.direction !== direction ||
+          s.values[direction] !== amount ||
+          s.values[quoted] === quotedAmount
+            ? s
+            : { ...s, values: { ...s.values, [quoted]: quotedAmount } },
+        )
+        setQuoteState({ isQuoting: false })
+      } catch (error) {
+        if (controller.signal.aborted) return
+        setQuoteState({ isQuoting: false, error })
+      }
+    }, quoteDelay)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [amount, direction, quoteKey, refreshes, quoteDelay, quoteRef])
+
+  const onSideChange =
+    (side: LinkedDirection) =>
+    (value: bigint | null, _maskedValue: string, changedFromProps: boolean) => {
+      // the quoted value coming back from the props isn't the user typing
+      if (changedFromProps) return
+      setLinked((s) =>
+        s.values[side] === value && s.direction === side
+          ? s
+          : { direction: side, values: { ...s.values, [side]: value } },
+      )
+    }
+
+  const sellInput = useBigIntInput({ ...sell, value: values.sell, onChange: onSideChange('sell') })
+  const buyInput = useBigIntInput({ ...buy, value: values.buy, onChange: onSideChange('buy') })
+
+  const { isQuoting, error: quoteError } = quoteState
+  return {
+    sell: { ...sellInput, isQuoting: isQuoting && direction === 'buy' },
+    buy: { ...buyInput, isQuoting: isQuoting && direction === 'sell' },
+    values,
+    direction,
+    isQuoting,
+    quoteError,
+    refresh,
+  }
+}
@@ -0,0 +1,9 @@
+// the entry without react, for vue, svelte or plain DOM inputs, the react one re-exports all of it
+export * from './core'
+export * from './history'
+export * from './math'
+export * from './adornments'
+export * from './autoSize'
+export * from './fixedAmount'
+export * from './slider'
+export { attachBigIntInput, type AttachBigIntInput } from './attachBigIntInput'
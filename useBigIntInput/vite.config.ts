@@ -4,14 +4,19 @@ import dts from 'vite-plugin-dts'
 export default defineConfig({
   build: {
     lib: {
-      entry: './useBigIntInput.ts',
-      fileName: 'useBigIntInput',
+      // the react-hook-form adapter is its own entry, so the main one doesn't need react-hook-form
+      // and the vanilla one needs neither of them nor react
+      entry: {
+        useBigIntInput: './useBigIntInput.ts',
+        useBigIntField: './useBigIntField.ts',
+        vanilla: './vanilla.ts',
+      },
       formats: ['es'],
     },
     target: 'esnext',
     minify: false,
     rollupOptions: {
-      external: ['react', 'react-dom'],
+      external: ['react', 'react-dom', 'react-hook-form'],
       treeshake: true,
     },
   },